@@ -0,0 +1,32 @@
+import { APIRequestContext } from '@playwright/test'
+import { ApiResult, BaseApi } from './base.api'
+import { ResourceTracker } from '../helpers/resource-tracker.helper'
+import { Barrel, TagKind } from '../models/barrel.model'
+
+/**
+ * Typed client for the `/barrels` endpoint.
+ */
+export class BarrelApi extends BaseApi<Barrel> {
+  static readonly endpoint = '/barrels'
+
+  constructor(request: APIRequestContext, tracker?: ResourceTracker) {
+    super(request, BarrelApi.endpoint, tracker)
+  }
+
+  /**
+   * Finds the barrels carrying a tag value, using the list endpoint since the API has no lookup by tag.
+   * Values are compared verbatim, without case folding or trimming, like the API stores them.
+   *
+   * @param {TagKind} kind - Tag field: `qr`, `rfid` or `nfc`.
+   * @param {string} value - Scanned tag value.
+   * @returns {Promise<ApiResult<Barrel[]>>} The listing result with only the matching barrels in `body`.
+   */
+  async findBarrelsByTag(kind: TagKind, value: string): Promise<ApiResult<Barrel[]>> {
+    const result = await this.list()
+    if (result.status !== 200 || !Array.isArray(result.body)) {
+      return result
+    }
+
+    return { ...result, body: result.body.filter((barrel) => barrel[kind] === value) }
+  }
+}
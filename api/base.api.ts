@@ -0,0 +1,113 @@
+import { APIRequestContext, APIResponse } from '@playwright/test'
+import { ProblemDetails } from '../models/error-response.model'
+import { ResourceTracker } from '../helpers/resource-tracker.helper'
+
+/**
+ * Result of a single API call.
+ * `body` and `error` hold the same parsed JSON, typed for the success and the
+ * failure case respectively — assert `status` first to know which one applies.
+ */
+export interface ApiResult<T> {
+  response: APIResponse,
+  status: number,
+  body: T,
+  error: ProblemDetails,
+}
+
+/**
+ * Options forwarded to the underlying `APIRequestContext` call.
+ */
+export interface ApiRequestOptions {
+  data?: unknown,
+  headers?: Record<string, string>,
+}
+
+/**
+ * Base for typed REST clients of a single Barrel Monitor resource.
+ * Builds resource URLs and parses JSON bodies so specs only deal with typed results.
+ * When a tracker is given, created items are registered for cleanup.
+ */
+export abstract class BaseApi<T extends { id?: string }> {
+  protected constructor(
+    protected readonly request: APIRequestContext,
+    readonly endpoint: string,
+    protected readonly tracker?: ResourceTracker
+  ) {}
+
+  /**
+   * Sends a request to the resource collection, or to a single item when `id` is given.
+   * Useful for methods the resource does not support, e.g. to assert 405 responses.
+   *
+   * @param {string} method - HTTP method.
+   * @param {string} [id] - Optional item identifier appended to the endpoint.
+   * @param {ApiRequestOptions} [options] - Request body and extra headers.
+   * @returns {Promise<ApiResult<R>>} Status, raw response and parsed body.
+   */
+  async send<R = T>(method: string, id?: string, options: ApiRequestOptions = {}): Promise<ApiResult<R>> {
+    const url = id === undefined ? this.endpoint : `${this.endpoint}/${encodeURIComponent(id)}`
+    const response = await this.request.fetch(url, { method, data: options.data, headers: options.headers })
+    const json = await parseJson(response)
+
+    return { response, status: response.status(), body: json as R, error: json as ProblemDetails }
+  }
+
+  /**
+   * Creates a new item. The payload is sent as-is, so invalid shapes can be posted too;
+   * a string is sent verbatim, e.g. to post malformed JSON.
+   *
+   * @param {object | string} data - Request payload.
+   * @param {Record<string, string>} [headers] - Extra request headers.
+   * @returns {Promise<ApiResult<T>>} The created item or a validation error.
+   */
+  async create(data: object | string, headers?: Record<string, string>): Promise<ApiResult<T>> {
+    const result = await this.send('POST', undefined, { data, headers })
+    if (result.status === 201 && result.body?.id) {
+      this.tracker?.track(this.endpoint, result.body.id)
+    }
+
+    return result
+  }
+
+  /**
+   * Retrieves a single item by its identifier.
+   *
+   * @param {string} id - Item identifier.
+   * @returns {Promise<ApiResult<T>>} The item or a not-found error.
+   */
+  get(id: string): Promise<ApiResult<T>> {
+    return this.send('GET', id)
+  }
+
+  /**
+   * Retrieves every item of the resource.
+   *
+   * @returns {Promise<ApiResult<T[]>>} All items.
+   */
+  list(): Promise<ApiResult<T[]>> {
+    return this.send<T[]>('GET')
+  }
+
+  /**
+   * Deletes a single item by its identifier.
+   *
+   * @param {string} id - Item identifier.
+   * @returns {Promise<ApiResult<undefined>>} Empty result on success.
+   */
+  async delete(id: string): Promise<ApiResult<undefined>> {
+    const result = await this.send<undefined>('DELETE', id)
+    if (result.status === 204) {
+      this.tracker?.forget(this.endpoint, id)
+    }
+
+    return result
+  }
+}
+
+async function parseJson(response: APIResponse): Promise<unknown> {
+  const text = await response.text()
+  if (!text || !response.headers()['content-type']?.includes('json')) {
+    return undefined
+  }
+
+  return JSON.parse(text)
+}
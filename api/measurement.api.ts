@@ -0,0 +1,15 @@
+import { APIRequestContext } from '@playwright/test'
+import { BaseApi } from './base.api'
+import { ResourceTracker } from '../helpers/resource-tracker.helper'
+import { Measurement } from '../models/measurement.model'
+
+/**
+ * Typed client for the `/measurements` endpoint.
+ */
+export class MeasurementApi extends BaseApi<Measurement> {
+  static readonly endpoint = '/measurements'
+
+  constructor(request: APIRequestContext, tracker?: ResourceTracker) {
+    super(request, MeasurementApi.endpoint, tracker)
+  }
+}
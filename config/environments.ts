@@ -0,0 +1,51 @@
+import { isLocalBaseUrl } from '../server/global-setup'
+
+export type EnvironmentName = 'local' | 'dev' | 'staging' | 'prod'
+
+/**
+ * Settings of one environment the suite can run against.
+ */
+export interface EnvironmentProfile {
+  name: EnvironmentName,
+  baseURL: string,
+  /** Blocks every request that could change data; tests that try one are skipped. */
+  readOnly: boolean,
+  /** Timeout of a single test, in ms. */
+  timeout: number,
+  /** Timeout of a single API request, in ms. */
+  requestTimeout: number,
+  /** Parallel workers; `undefined` lets Playwright decide. */
+  workers?: number,
+}
+
+/**
+ * Known environments. `BASE_URL` overrides the base URL of any profile and is required
+ * for profiles without a default.
+ */
+export const environmentProfiles: Record<EnvironmentName, Omit<EnvironmentProfile, 'name' | 'baseURL'> & { baseURL?: string }> = {
+  local: { baseURL: 'http://localhost:5099', readOnly: false, timeout: 30_000, requestTimeout: 5_000 },
+  dev: { baseURL: 'https://to-barrel-monitor.azurewebsites.net', readOnly: false, timeout: 60_000, requestTimeout: 15_000, workers: 2 },
+  staging: { readOnly: false, timeout: 60_000, requestTimeout: 15_000, workers: 2 },
+  prod: { readOnly: true, timeout: 30_000, requestTimeout: 10_000, workers: 1 },
+}
+
+/**
+ * Resolves the profile selected by `TEST_ENV`. Without `TEST_ENV`, a loopback `BASE_URL`
+ * selects `local` and anything else `dev`.
+ *
+ * @param {NodeJS.ProcessEnv} [env] - Environment variables to read.
+ * @returns {EnvironmentProfile} Selected profile with its base URL.
+ */
+export function resolveEnvironment(env: NodeJS.ProcessEnv = process.env): EnvironmentProfile {
+  const name = env['TEST_ENV'] ?? (isLocalBaseUrl(env['BASE_URL']) ? 'local' : 'dev')
+  if (!(name in environmentProfiles)) {
+    throw new Error(`Unknown TEST_ENV '${name}', expected one of ${Object.keys(environmentProfiles).join(', ')}`)
+  }
+  const profile = environmentProfiles[name as EnvironmentName]
+  const baseURL = env['BASE_URL'] ?? profile.baseURL
+  if (!baseURL) {
+    throw new Error(`Set BASE_URL to run against the '${name}' environment`)
+  }
+
+  return { ...profile, name: name as EnvironmentName, baseURL }
+}
@@ -0,0 +1,13 @@
+/**
+ * Tags every test must choose from; a test needs at least one.
+ *
+ * - `@smoke` — quick health check of the main operations.
+ * - `@crud` — create, read and delete scenarios.
+ * - `@validation` — rejected input, error bodies and schema checks.
+ * - `@security` — injection, sanitation and hardening checks.
+ * - `@concurrency` — parallel requests and load.
+ * - `@destructive` — creates, changes or deletes data; skipped in read-only environments.
+ */
+export const testTags = ['@smoke', '@crud', '@validation', '@security', '@concurrency', '@destructive'] as const
+
+export type TestTag = typeof testTags[number]
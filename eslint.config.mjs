@@ -15,5 +15,5 @@ export default defineConfig([
       'newline-before-return': ['error'],
     },
   },
-  globalIgnores(['./playwright-report', './test-results']),
+  globalIgnores(['./playwright-report', './test-results', './api-coverage-report', './test-history', './schema-drift-report']),
 ])
\ No newline at end of file
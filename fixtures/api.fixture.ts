@@ -0,0 +1,266 @@
+import { APIRequestContext, expect, test as base } from '@playwright/test'
+import { BarrelApi } from '../api/barrel.api'
+import { MeasurementApi } from '../api/measurement.api'
+import { reportLeftovers, ResourceTracker } from '../helpers/resource-tracker.helper'
+import { RequestHook, withRequestHooks } from '../helpers/request-hooks.helper'
+import {
+  contractValidationHook, ContractViolation, formatContractViolations, OpenApiContract, unacknowledgedViolations
+} from '../helpers/contract.helper'
+import { ApiCall, apiCallsAttachment, apiCoverageHook, ApiSurface, loadApiSurface } from '../helpers/api-coverage.helper'
+import { readOnlyPolicyHook, readOnlySkipReason } from '../helpers/read-only-policy.helper'
+import { EnvironmentProfile, resolveEnvironment } from '../config/environments'
+import { TestTag, testTags } from '../config/tags'
+import { SecurityChecks } from '../helpers/security.helper'
+import { cassetteHook, cassetteMode, cassetteName, CassetteRecorder, describeCassetteName } from '../helpers/cassette.helper'
+import { faker } from '@faker-js/faker'
+import { fakerRefDate, rerunCommand, runSeed, testSeed } from '../helpers/seed.helper'
+import {
+  classifyFailure, failureClassAnnotation, previousFailureClass, retriedFailureClasses, saveFailureClass, saveNotRetried,
+  serverErrorHook
+} from '../helpers/failure-classification.helper'
+import {
+  findSchemaDrift, formatSchemaDrift, loadSchemaBaseline, ResponseShapeCollector, responseShapesAttachment, schemaDriftHook,
+  schemaDriftMode
+} from '../helpers/schema-drift.helper'
+
+/**
+ * How contract violations affect a test: `strict` fails it, `report` only attaches them, `off` skips validation.
+ */
+const contractValidation = process.env['CONTRACT_VALIDATION'] ?? 'strict'
+
+export interface ApiFixtures {
+  /** Requires known tags on every test and skips `@destructive` tests in read-only environments. */
+  tagPolicy: undefined,
+  /** Seed of the test data of the test; Faker is seeded with it before the test starts. */
+  seed: number,
+  /** Saves the cassette of the test when `CASSETTE_MODE=record`. */
+  cassette: undefined,
+  /** Classifies failures and skips retries of attempts that a retry cannot fix. */
+  failureClassification: undefined,
+  /** 5xx responses received by the test, e.g. `GET /barrels 503`. */
+  serverErrors: string[],
+  resourceTracker: ResourceTracker,
+  barrelApi: BarrelApi,
+  measurementApi: MeasurementApi,
+  securityChecks: SecurityChecks,
+}
+
+export interface ApiWorkerFixtures {
+  environment: EnvironmentProfile,
+  openApiContract: OpenApiContract,
+  apiSurface: ApiSurface,
+  /** Requests of the worker not yet attached to a test, for the API coverage reporter. */
+  apiCalls: ApiCall[],
+  /** Contract violations of worker-scoped requests (`beforeAll` setup) not yet reported by a test. */
+  workerContractViolations: ContractViolation[],
+  /** 5xx responses of worker-scoped requests (`beforeAll` setup) not yet taken over by a test. */
+  workerServerErrors: string[],
+  /**
+   * Response shapes of the worker not yet attached to a test, for the schema drift reporter.
+   * With `SCHEMA_DRIFT=strict` drift in any shape of the worker fails the run at worker teardown.
+   */
+  responseShapes: ResponseShapeCollector,
+  /**
+   * Seed of the run; Faker is seeded with it when the worker starts. `beforeAll` hooks run before the per-test seed
+   * and reseed Faker with `describeSeed`, so their data does not depend on the tests that ran before.
+   */
+  workerSeed: number,
+  cassetteRecorder: CassetteRecorder,
+  workerRequest: APIRequestContext,
+  workerResourceTracker: ResourceTracker,
+  workerBarrelApi: BarrelApi,
+  workerMeasurementApi: MeasurementApi,
+}
+
+/**
+ * Playwright `test` extended with typed API clients.
+ *
+ * Test-scoped clients delete everything they created when the test ends.
+ * Worker-scoped clients are meant for `beforeAll` setup shared by several tests;
+ * their resources are deleted when the worker shuts down.
+ * Resources that cannot be deleted are reported as warnings (and as a test annotation).
+ * In read-only environments `@destructive` tests are skipped up front, and mutating requests of any other
+ * test are blocked before they are sent and skip that test.
+ * Every response received through `request` or `workerRequest`, and the body of every request the API accepted,
+ * is validated against the OpenAPI document; violations of `beforeAll` requests are reported by the next test,
+ * and a test acknowledges known deviations with a `contract-deviation` annotation.
+ * Every request is attached to the test as an `api-calls` record for the coverage report.
+ * The keys and value types of the barrel and measurement responses are attached as `response-shapes`
+ * for the schema drift report, unless `SCHEMA_DRIFT=off`.
+ * With `CASSETTE_MODE=record` every exchange is saved to the cassette of the test, or of its describe block
+ * for `workerRequest`, with `CASSETTE_MODE=replay` requests are answered from it by the replay server.
+ * A failed attempt is classified as `network`, `server-error` or `assertion` (`failure-class` annotation),
+ * counting 5xx responses of the `beforeAll` setup too; only the first two are retried, the retry after
+ * an assertion mismatch is skipped and the global teardown fails the run.
+ */
+export const test = base.extend<ApiFixtures, ApiWorkerFixtures>({
+  tagPolicy: [async ({ environment }, use, testInfo) => {
+    const unknownTags = testInfo.tags.filter((tag) => !(testTags as readonly string[]).includes(tag))
+    if (testInfo.tags.length === 0 || unknownTags.length > 0) {
+      throw new Error(`Tag the test with at least one of ${testTags.join(', ')}${unknownTags.length > 0 ? `; unknown: ${unknownTags.join(', ')}` : ''}`)
+    }
+    if (environment.readOnly && testInfo.tags.includes('@destructive' satisfies TestTag)) {
+      testInfo.skip(true, readOnlySkipReason(environment, 'a @destructive test'))
+    }
+    await use(undefined)
+  }, { auto: true }],
+  seed: [async ({}, use, testInfo) => {
+    const seed = testSeed(testInfo)
+    faker.seed(seed)
+    testInfo.annotations.push({ type: 'seed', description: `${seed} (rerun: ${rerunCommand(testInfo, seed)})` })
+    await use(seed)
+  }, { auto: true }],
+  cassette: [async ({ cassetteRecorder }, use, testInfo) => {
+    await use(undefined)
+    if (cassetteMode === 'record') {
+      cassetteRecorder.save(cassetteName(testInfo))
+    }
+  }, { auto: true }],
+  failureClassification: [async ({ serverErrors, workerServerErrors }, use, testInfo) => {
+    const previous = testInfo.retry > 0 ? previousFailureClass(testInfo) : undefined
+    if (previous && !retriedFailureClasses.includes(previous)) {
+      saveNotRetried(testInfo, previous)
+      testInfo.skip(true, `Not retried: the previous attempt failed with failure class '${previous}', which a retry cannot fix`)
+    }
+    await use(undefined)
+    serverErrors.push(...workerServerErrors.splice(0))
+    if (testInfo.status !== testInfo.expectedStatus && testInfo.status !== 'skipped') {
+      const failureClass = classifyFailure(testInfo.errors, testInfo.status === 'timedOut', serverErrors)
+      saveFailureClass(testInfo, failureClass)
+      testInfo.annotations.push({ type: failureClassAnnotation, description: failureClass })
+    }
+  }, { auto: true }],
+  serverErrors: async ({ workerServerErrors }, use) => {
+    await use(workerServerErrors.splice(0))
+  },
+  request: async ({
+    request, environment, openApiContract, apiSurface, apiCalls, workerContractViolations, responseShapes, cassetteRecorder, serverErrors,
+  }, use, testInfo) => {
+    const violations: ContractViolation[] = []
+    const hooks: RequestHook[] = [readOnlyPolicyHook(environment), apiCoverageHook(apiSurface, apiCalls), serverErrorHook(serverErrors)]
+    if (cassetteMode !== 'off') {
+      hooks.push(cassetteHook(cassetteMode, cassetteRecorder))
+    }
+    if (contractValidation !== 'off') {
+      hooks.push(contractValidationHook(openApiContract, violations))
+    }
+    if (schemaDriftMode !== 'off') {
+      hooks.push(schemaDriftHook(responseShapes))
+    }
+    await use(withRequestHooks(request, hooks))
+    violations.unshift(...workerContractViolations.splice(0))
+    if (apiCalls.length > 0) {
+      await testInfo.attach(apiCallsAttachment, { body: JSON.stringify(apiCalls.splice(0)), contentType: 'application/json' })
+    }
+    const shapes = responseShapes.take()
+    if (Object.keys(shapes).length > 0) {
+      await testInfo.attach(responseShapesAttachment, { body: JSON.stringify(shapes), contentType: 'application/json' })
+    }
+    if (violations.length > 0) {
+      await testInfo.attach('contract-violations', { body: JSON.stringify(violations, null, 2), contentType: 'application/json' })
+      const unexpected = unacknowledgedViolations(violations, testInfo.annotations)
+      if (contractValidation === 'strict') {
+        expect.soft(unexpected, `Exchanges do not match the OpenAPI contract:\n${formatContractViolations(unexpected)}`).toEqual([])
+      }
+    }
+  },
+  resourceTracker: async ({ request }, use, testInfo) => {
+    const tracker = new ResourceTracker()
+    await use(tracker)
+    reportLeftovers(await tracker.cleanup(request), testInfo)
+  },
+  barrelApi: async ({ request, resourceTracker }, use) => {
+    await use(new BarrelApi(request, resourceTracker))
+  },
+  measurementApi: async ({ request, resourceTracker }, use) => {
+    await use(new MeasurementApi(request, resourceTracker))
+  },
+  securityChecks: async ({}, use, testInfo) => {
+    const checks = new SecurityChecks(testInfo)
+    await use(checks)
+    await checks.report()
+  },
+
+  environment: [async ({}, use) => {
+    await use(resolveEnvironment())
+  }, { scope: 'worker' }],
+  openApiContract: [async ({}, use) => {
+    await use(OpenApiContract.load())
+  }, { scope: 'worker' }],
+  apiSurface: [async ({}, use) => {
+    await use(loadApiSurface())
+  }, { scope: 'worker' }],
+  apiCalls: [async ({}, use) => {
+    await use([])
+  }, { scope: 'worker' }],
+  workerContractViolations: [async ({}, use) => {
+    const violations: ContractViolation[] = []
+    await use(violations)
+    if (violations.length > 0) {
+      console.warn(`Worker requests do not match the OpenAPI contract:\n${formatContractViolations(violations)}`)
+    }
+  }, { scope: 'worker' }],
+  workerServerErrors: [async ({}, use) => {
+    await use([])
+  }, { scope: 'worker' }],
+  responseShapes: [async ({}, use) => {
+    const collector = new ResponseShapeCollector()
+    await use(collector)
+    if (schemaDriftMode === 'strict') {
+      const drift = findSchemaDrift(collector.all(), loadSchemaBaseline(), schemaDriftMode)
+      if (drift.length > 0) {
+        throw new Error(formatSchemaDrift(drift))
+      }
+    }
+  }, { scope: 'worker' }],
+  workerSeed: [async ({}, use) => {
+    faker.seed(runSeed())
+    faker.setDefaultRefDate(fakerRefDate)
+    await use(runSeed())
+  }, { scope: 'worker', auto: true }],
+  cassetteRecorder: [async ({}, use) => {
+    const recorder = new CassetteRecorder()
+    await use(recorder)
+    if (cassetteMode === 'record') {
+      recorder.saveAll()
+    }
+  }, { scope: 'worker' }],
+  workerRequest: [async ({
+    playwright, environment, openApiContract, apiSurface, apiCalls, workerContractViolations, workerServerErrors, responseShapes,
+    cassetteRecorder,
+  }, use, workerInfo) => {
+    const context = await playwright.request.newContext({
+      baseURL: workerInfo.project.use.baseURL,
+      extraHTTPHeaders: workerInfo.project.use.extraHTTPHeaders,
+      timeout: environment.requestTimeout,
+    })
+    const hooks = [readOnlyPolicyHook(environment), apiCoverageHook(apiSurface, apiCalls), serverErrorHook(workerServerErrors)]
+    if (cassetteMode !== 'off') {
+      hooks.push(cassetteHook(cassetteMode, cassetteRecorder, describeCassetteName))
+    }
+    if (contractValidation !== 'off') {
+      hooks.push(contractValidationHook(openApiContract, workerContractViolations))
+    }
+    if (schemaDriftMode !== 'off') {
+      hooks.push(schemaDriftHook(responseShapes))
+    }
+    await use(withRequestHooks(context, hooks))
+    await context.dispose()
+  }, { scope: 'worker' }],
+  workerResourceTracker: [async ({ workerRequest }, use) => {
+    const tracker = new ResourceTracker()
+    await use(tracker)
+    // Replayed resources never existed, and worker teardown belongs to no cassette
+    if (cassetteMode !== 'replay') {
+      reportLeftovers(await tracker.cleanup(workerRequest))
+    }
+  }, { scope: 'worker' }],
+  workerBarrelApi: [async ({ workerRequest, workerResourceTracker }, use) => {
+    await use(new BarrelApi(workerRequest, workerResourceTracker))
+  }, { scope: 'worker' }],
+  workerMeasurementApi: [async ({ workerRequest, workerResourceTracker }, use) => {
+    await use(new MeasurementApi(workerRequest, workerResourceTracker))
+  }, { scope: 'worker' }],
+})
+
+export { expect } from '../helpers/matchers.helper'
@@ -0,0 +1,271 @@
+import { OpenApiContract, openApiDocumentPath } from './contract.helper'
+import { ApiExchange, RequestHook } from './request-hooks.helper'
+
+/**
+ * Declared API surface: the status codes every method of every path template is expected to answer.
+ */
+export type ApiSurface = Record<string, Record<string, number[]>>
+
+/**
+ * A request made by the suite, reduced to what the coverage matrix needs.
+ */
+export interface ApiCall {
+  method: string,
+  /** Path template such as `/barrels/{id}`, or the raw path when no template matches. */
+  path: string,
+  status: number,
+}
+
+/**
+ * One cell of the coverage matrix.
+ */
+export interface CoverageCell {
+  status: number,
+  declared: boolean,
+  calls: number,
+}
+
+/**
+ * Coverage of one method on one path template.
+ */
+export interface CoverageRow {
+  method: string,
+  path: string,
+  declared: boolean,
+  statuses: CoverageCell[],
+}
+
+/**
+ * Endpoint × method × status matrix of a test run.
+ */
+export interface CoverageMatrix {
+  declared: number,
+  covered: number,
+  rows: CoverageRow[],
+}
+
+/**
+ * Declared combinations exercised by the tests carrying one tag.
+ */
+export interface TagCoverage {
+  tag: string,
+  tests: number,
+  requests: number,
+  /** Covered combinations such as `GET /barrels/{id} 404`. */
+  covered: string[],
+}
+
+/**
+ * Name of the test attachment holding the `ApiCall[]` a test made; read by the API coverage reporter.
+ */
+export const apiCallsAttachment = 'api-calls'
+
+/**
+ * Methods covered on every path template; those without an operation are expected to answer 405.
+ */
+const surfaceMethods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+/**
+ * Derives the API surface from the OpenAPI document: the response codes of every declared operation,
+ * and 405 for every other method, which ASP.NET answers when a route matches but none of its actions do.
+ *
+ * @param {string} [file] - Path to the OpenAPI document.
+ * @returns {ApiSurface} Declared statuses per path template and method.
+ */
+export function loadApiSurface(file: string = openApiDocumentPath): ApiSurface {
+  const { paths } = OpenApiContract.load(file).document
+
+  return Object.fromEntries(Object.entries(paths).map(([template, item]) => [template, Object.fromEntries(
+    surfaceMethods.map((method) => {
+      const operation = item[method.toLowerCase()]
+
+      return [method, operation ? Object.keys(operation.responses).filter((status) => /^\d{3}$/.test(status)).map(Number) : [405]]
+    })
+  )]))
+}
+
+/**
+ * Maps a concrete request path to its template, e.g. `/barrels/8c1e…` to `/barrels/{id}`.
+ *
+ * @param {string} requestPath - Request path without query.
+ * @param {string[]} templates - Declared path templates.
+ * @returns {string} Matching template, or the request path when none matches.
+ */
+export function normalizePath(requestPath: string, templates: string[]): string {
+  const segments = requestPath.split('/').filter(Boolean)
+  const template = templates.find((candidate) => {
+    const templateSegments = candidate.split('/').filter(Boolean)
+
+    return templateSegments.length === segments.length &&
+      templateSegments.every((segment, i) => /^{.+}$/.test(segment) || segment === segments[i])
+  })
+
+  return template ?? requestPath
+}
+
+/**
+ * Creates a request hook that records method, path template and status of every request into `calls`.
+ *
+ * @param {ApiSurface} surface - Declared API surface, used to normalize paths.
+ * @param {ApiCall[]} calls - Array receiving the calls.
+ * @returns {RequestHook} Hook for `withRequestHooks`.
+ */
+export function apiCoverageHook(surface: ApiSurface, calls: ApiCall[]): RequestHook {
+  const templates = Object.keys(surface)
+
+  return {
+    afterResponse({ method, path: requestPath, response }: ApiExchange) {
+      calls.push({ method, path: normalizePath(requestPath, templates), status: response.status() })
+    },
+  }
+}
+
+/**
+ * Compares the recorded calls with the declared surface. Every declared status becomes a cell,
+ * covered when at least one call received it; statuses and operations that were received
+ * but not declared are added as undeclared cells and rows.
+ *
+ * @param {ApiSurface} surface - Declared API surface.
+ * @param {ApiCall[]} calls - Calls recorded during the run.
+ * @returns {CoverageMatrix} Matrix with totals of declared and covered combinations.
+ */
+export function buildCoverageMatrix(surface: ApiSurface, calls: ApiCall[]): CoverageMatrix {
+  const rows = new Map<string, CoverageRow>()
+  const row = (method: string, rowPath: string, declared: boolean): CoverageRow => {
+    const key = `${method} ${rowPath}`
+    if (!rows.has(key)) {
+      rows.set(key, { method, path: rowPath, declared, statuses: [] })
+    }
+
+    return rows.get(key) as CoverageRow
+  }
+
+  for (const [template, methods] of Object.entries(surface)) {
+    for (const [method, statuses] of Object.entries(methods)) {
+      row(method, template, true).statuses.push(...statuses.map((status) => ({ status, declared: true, calls: 0 })))
+    }
+  }
+  for (const call of calls) {
+    const { statuses } = row(call.method, call.path, false)
+    let cell = statuses.find(({ status }) => status === call.status)
+    if (!cell) {
+      cell = { status: call.status, declared: false, calls: 0 }
+      statuses.push(cell)
+    }
+    cell.calls++
+  }
+
+  const sorted = [...rows.values()].sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method))
+  sorted.forEach(({ statuses }) => statuses.sort((a, b) => a.status - b.status))
+  const declaredCells = sorted.flatMap(({ statuses }) => statuses.filter(({ declared }) => declared))
+
+  return {
+    declared: declaredCells.length,
+    covered: declaredCells.filter(({ calls: count }) => count > 0).length,
+    rows: sorted,
+  }
+}
+
+/**
+ * Lists the declared combinations no request received, e.g. `DELETE /measurements/{id} 204`.
+ *
+ * @param {CoverageMatrix} matrix - Result of `buildCoverageMatrix`.
+ * @returns {string[]} One entry per untested combination.
+ */
+export function untestedCombinations(matrix: CoverageMatrix): string[] {
+  return matrix.rows.flatMap(({ method, path: rowPath, statuses }) =>
+    statuses.filter(({ declared, calls }) => declared && calls === 0).map(({ status }) => `${method} ${rowPath} ${status}`))
+}
+
+/**
+ * Summarizes which declared combinations the tests of one tag exercised.
+ *
+ * @param {ApiSurface} surface - Declared API surface.
+ * @param {string} tag - Tag such as `@smoke`.
+ * @param {number} tests - Number of tests carrying the tag.
+ * @param {ApiCall[]} calls - Calls made by those tests.
+ * @returns {TagCoverage} Covered combinations of the tag.
+ */
+export function buildTagCoverage(surface: ApiSurface, tag: string, tests: number, calls: ApiCall[]): TagCoverage {
+  const matrix = buildCoverageMatrix(surface, calls)
+  const covered = matrix.rows.flatMap(({ method, path: rowPath, statuses }) =>
+    statuses.filter(({ declared, calls: count }) => declared && count > 0).map(({ status }) => `${method} ${rowPath} ${status}`))
+
+  return { tag, tests, requests: calls.length, covered }
+}
+
+/**
+ * Renders the matrix as a standalone HTML page: one row per path and method,
+ * one column per status code seen anywhere in the matrix, followed by the coverage per tag.
+ *
+ * @param {CoverageMatrix} matrix - Result of `buildCoverageMatrix`.
+ * @param {TagCoverage[]} [tags] - Coverage per tag.
+ * @returns {string} HTML document.
+ */
+export function renderCoverageHtml(matrix: CoverageMatrix, tags: TagCoverage[] = []): string {
+  const columns = [...new Set(matrix.rows.flatMap(({ statuses }) => statuses.map(({ status }) => status)))].sort((a, b) => a - b)
+  const cell = (row: CoverageRow, status: number): string => {
+    const found = row.statuses.find((candidate) => candidate.status === status)
+    if (!found) {
+      return '<td></td>'
+    }
+    const state = !found.declared ? 'undeclared' : found.calls > 0 ? 'covered' : 'missing'
+
+    return `<td class="${state}" title="${state}">${found.calls > 0 ? found.calls : '✗'}</td>`
+  }
+  const rows = matrix.rows.map((row) =>
+    `<tr${row.declared ? '' : ' class="undeclared"'}><th>${escapeHtml(row.method)}</th><th>${escapeHtml(row.path)}</th>` +
+    `${columns.map((status) => cell(row, status)).join('')}</tr>`)
+  const percent = (covered: number): number => matrix.declared === 0 ? 100 : Math.round(covered / matrix.declared * 100)
+  const tagRows = tags.map(({ tag, tests, requests, covered }) =>
+    `<tr><th>${escapeHtml(tag)}</th><td>${tests}</td><td>${requests}</td><td>${covered.length} (${percent(covered.length)}%)</td>` +
+    `<td class="combinations">${covered.map(escapeHtml).join('<br>')}</td></tr>`)
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>API coverage</title>
+<style>
+  body { font-family: sans-serif; margin: 2em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 4px 10px; text-align: center; }
+  th { text-align: left; }
+  td.covered { background: #d4f7d4; }
+  td.missing { background: #f9d0d0; }
+  td.undeclared { background: #fbeec1; }
+  tr.undeclared th { font-style: italic; }
+  td.combinations { text-align: left; font-family: monospace; }
+</style>
+</head>
+<body>
+<h1>API coverage</h1>
+<p>${matrix.covered} of ${matrix.declared} declared method × status combinations covered (${percent(matrix.covered)}%).
+Green: covered (number of calls), red: never received, yellow: received but not declared.</p>
+<table>
+<thead><tr><th>Method</th><th>Path</th>${columns.map((status) => `<th>${status}</th>`).join('')}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+<h2>By tag</h2>
+<table>
+<thead><tr><th>Tag</th><th>Tests</th><th>Requests</th><th>Covered</th><th>Combinations</th></tr></thead>
+<tbody>
+${tagRows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`
+}
+
+/**
+ * Escapes text for use in HTML content and attribute values.
+ *
+ * @param {string} text - Raw text.
+ * @returns {string} Escaped text.
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
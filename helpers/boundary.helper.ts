@@ -0,0 +1,103 @@
+import { float32Max, isWithinLimit, Limit } from '../models/limits.model'
+import { isAcceptedBy, NumericRule } from '../models/numeric-rules.model'
+
+/**
+ * One generated boundary value of a field and whether the API must accept it.
+ */
+export interface BoundaryCase {
+  field: string,
+  /** Position relative to the limit, e.g. `max + 1`. */
+  label: string,
+  value: string | number,
+  valid: boolean,
+  /** Unit of a numeric value, shown in the title. */
+  unit?: string,
+}
+
+/**
+ * Builds the length boundaries `min - 1`, `min`, `max` and `max + 1` of every string field.
+ * A length of `0` is sent as an empty string, which the API reports as missing.
+ *
+ * @param {Record<string, Limit>} limits - Length limits per field, e.g. `barrelLimits`.
+ * @returns {BoundaryCase[]} Cases with strings of the boundary lengths.
+ */
+export function lengthBoundaries(limits: Record<string, Limit>): BoundaryCase[] {
+  return Object.entries(limits).flatMap(([field, limit]) => {
+    const { min, max } = limit
+    const lengths: [string, number][] = [['min - 1', min - 1], ['min', min], ['max', max], ['max + 1', max + 1]]
+
+    return lengths
+      .filter(([, length]) => length >= 0)
+      .map(([label, length]) => ({ field, label, value: 'x'.repeat(length), valid: isWithinLimit(limit, length) }))
+  })
+}
+
+/**
+ * Builds the value boundaries `min - 1`, `min`, `max` and `max + 1` of every float32 field, plus the
+ * float32 edges: the neighbouring float32 values of both limits, the smallest positive float32 and the
+ * largest finite one, and the first value that overflows to infinity. Whether a case is valid follows from
+ * its value rounded to float32, so duplicates such as `max + 1` at the float32 maximum are dropped.
+ *
+ * @param {Record<string, NumericRule>} rules - Value ranges per field, e.g. `measurementLimits`.
+ * @returns {BoundaryCase[]} Cases ordered by value.
+ */
+export function float32Boundaries(rules: Record<string, NumericRule>): BoundaryCase[] {
+  return Object.entries(rules).flatMap(([field, rule]) => {
+    const { min, max, unit } = rule
+    const candidates: [string, number][] = [
+      ['min - 1', min - 1],
+      ['float32 below min', nextFloat32(min, -1)],
+      ['min', min],
+      ['float32 above min', nextFloat32(min, 1)],
+      ['smallest positive float32', nextFloat32(0, 1)],
+      ['float32 below max', nextFloat32(max, -1)],
+      ['max', max],
+      ['float32 above max', nextFloat32(max, 1)],
+      ['max + 1', max + 1],
+      ['largest float32', float32Max],
+      ['float32 overflow', 2 ** 128],
+    ]
+
+    return candidates
+      .filter(([, value], index) => candidates.findIndex(([, other]) => other === value) === index)
+      .sort(([, a], [, b]) => a - b)
+      .map(([label, value]) => ({
+        field,
+        label,
+        value,
+        valid: isAcceptedBy(rule, value),
+        unit,
+      }))
+  })
+}
+
+/**
+ * Formats a case for a test title, e.g. `qr max + 1 (length 256) is rejected`.
+ *
+ * @param {BoundaryCase} boundary - Generated case.
+ * @returns {string} Test title.
+ */
+export function boundaryTitle({ field, label, value, valid, unit }: BoundaryCase): string {
+  const shown = typeof value === 'string' ? `length ${value.length}` : `${value}${unit ? ` ${unit}` : ''}`
+
+  return `${field} ${label} (${shown}) is ${valid ? 'accepted' : 'rejected'}`
+}
+
+/**
+ * Returns the adjacent float32 value in the given direction; the float32 neighbour of `0`
+ * is the smallest subnormal, and the neighbour above the largest float32 is `2 ** 128`,
+ * the first double that rounds to infinity.
+ */
+function nextFloat32(value: number, direction: 1 | -1): number {
+  const float = new Float32Array([value])
+  const bits = new Int32Array(float.buffer)
+  if (float[0] === 0) {
+    bits[0] = direction === 1 ? 1 : 0x80000001
+  } else if ((float[0] > 0) === (direction === 1)) {
+    bits[0]++
+  } else {
+    bits[0]--
+  }
+
+  return Number.isFinite(float[0]) ? float[0] : direction * 2 ** 128
+}
@@ -0,0 +1,289 @@
+import { test, TestInfo } from '@playwright/test'
+import { createHash } from 'crypto'
+import { mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs'
+import path from 'path'
+import { normalize } from './golden.helper'
+import { ApiExchange, RequestHook } from './request-hooks.helper'
+
+/**
+ * `record` captures every exchange of a test into its cassette, `replay` answers requests
+ * from the cassettes through the local replay server; unset leaves the suite untouched.
+ */
+export type CassetteMode = 'record' | 'replay' | 'off'
+
+export const cassetteMode = (process.env['CASSETTE_MODE'] as CassetteMode | undefined) ?? 'off'
+
+/**
+ * Directory holding the cassettes, one subdirectory per spec file; overridable with `CASSETTE_DIR`.
+ */
+export const cassetteDir = path.resolve(__dirname, '..', process.env['CASSETTE_DIR'] ?? 'cassettes')
+
+/**
+ * Base URL of the replay server, on `REPLAY_PORT` (default `5098`).
+ */
+export const replayBaseUrl = `http://localhost:${process.env['REPLAY_PORT'] ?? 5098}`
+
+/**
+ * Request header naming the cassette the replay server answers from.
+ */
+export const cassetteHeader = 'x-cassette'
+
+/**
+ * Request header carrying the retry of the running test, so a retry is replayed from the start.
+ */
+export const cassetteRetryHeader = 'x-cassette-retry'
+
+/**
+ * Response header set by the replay server when a request has no recording.
+ */
+export const replayMissHeader = 'x-replay-miss'
+
+export interface HarHeader {
+  name: string,
+  value: string,
+}
+
+/**
+ * One recorded exchange, a subset of a HAR 1.2 entry.
+ */
+export interface CassetteEntry {
+  startedDateTime: string,
+  time: number,
+  request: {
+    method: string,
+    url: string,
+    headers: HarHeader[],
+    postData?: { mimeType: string, text: string },
+  },
+  response: {
+    status: number,
+    statusText: string,
+    headers: HarHeader[],
+    content: { mimeType: string, text: string },
+  },
+}
+
+/**
+ * Recorded exchanges of one test in HAR 1.2 layout, so the files open in HAR viewers.
+ */
+export interface Cassette {
+  log: {
+    version: '1.2',
+    creator: { name: string, version: string },
+    entries: CassetteEntry[],
+  },
+}
+
+/**
+ * Names the cassette of a test after its spec file and title path, e.g.
+ * `barrels.spec.ts/barrels-positive-create-a-barrel-1f2e3d4c`.
+ *
+ * @param {TestInfo} testInfo - Info of the running test.
+ * @returns {string} Cassette name relative to `cassetteDir`, without extension.
+ */
+export function cassetteName(testInfo: TestInfo): string {
+  return nameAfter(testInfo.titlePath)
+}
+
+/**
+ * Names the cassette of the worker-scoped requests made for a describe block, such as its `beforeAll` setup,
+ * after its spec file and describe titles, e.g. `measurement.spec.ts/before-all-measurements-5a6b7c8d`.
+ * The setup runs once per worker for whichever test of the block comes first, so keying it by test
+ * would tie the recording to the worker count and test order of the recording run.
+ *
+ * @param {TestInfo} testInfo - Info of the test the hooks run for.
+ * @returns {string} Cassette name relative to `cassetteDir`, without extension.
+ */
+export function describeCassetteName(testInfo: TestInfo): string {
+  const [file, ...describes] = testInfo.titlePath.slice(0, -1)
+
+  return nameAfter([file, 'before all', ...describes])
+}
+
+/**
+ * Canonical form of a request body used to match it against recordings:
+ * JSON with sorted keys and without insignificant whitespace, other bodies trimmed.
+ *
+ * @param {string | undefined} body - Raw request body.
+ * @returns {string} Normalized body.
+ */
+export function normalizeBody(body: string | undefined): string {
+  if (!body?.trim()) {
+    return ''
+  }
+  try {
+    return JSON.stringify(normalize(JSON.parse(body), []))
+  } catch {
+    return body.trim()
+  }
+}
+
+/**
+ * Key a request is matched on: method, path with query and normalized body.
+ *
+ * @param {string} method - HTTP method.
+ * @param {string} url - Absolute or origin-relative URL.
+ * @param {string | undefined} body - Raw request body.
+ * @returns {string} Match key.
+ */
+export function requestKey(method: string, url: string, body: string | undefined): string {
+  const { pathname, search } = new URL(url, 'http://localhost')
+
+  return `${method.toUpperCase()} ${pathname}${search} ${normalizeBody(body)}`
+}
+
+/**
+ * Reads every cassette below a directory.
+ *
+ * @param {string} [dir] - Cassette directory.
+ * @returns {Map<string, Cassette>} Cassettes by name.
+ */
+export function loadCassettes(dir: string = cassetteDir): Map<string, Cassette> {
+  const cassettes = new Map<string, Cassette>()
+  const visit = (current: string): void => {
+    for (const entry of readdirSync(current)) {
+      const file = path.join(current, entry)
+      if (statSync(file).isDirectory()) {
+        visit(file)
+      } else if (entry.endsWith('.har.json')) {
+        const name = path.relative(dir, file).slice(0, -'.har.json'.length).split(path.sep).join('/')
+        cassettes.set(name, JSON.parse(readFileSync(file, 'utf8')))
+      }
+    }
+  }
+  visit(dir)
+
+  return cassettes
+}
+
+/**
+ * Collects the exchanges of a worker by cassette and writes a test cassette when its test ends,
+ * and the describe cassettes when the worker shuts down.
+ */
+export class CassetteRecorder {
+  private readonly entries = new Map<string, CassetteEntry[]>()
+
+  constructor(private readonly dir: string = cassetteDir) {}
+
+  /**
+   * Records an exchange into a cassette.
+   *
+   * @param {string} name - Cassette name.
+   * @param {ApiExchange} exchange - Completed request and response.
+   */
+  async record(name: string, { method, data, headers = {}, response }: ApiExchange): Promise<void> {
+    const text = typeof data === 'string' ? data : data === undefined ? undefined : JSON.stringify(data)
+    const requestHeaders = Object.entries(headers).map(([headerName, value]) => ({ name: headerName, value }))
+    const contentType = (list: HarHeader[]): string =>
+      list.find(({ name: headerName }) => headerName.toLowerCase() === 'content-type')?.value ?? ''
+    const responseHeaders = response.headersArray()
+    const responseText = method === 'HEAD' ? '' : await response.text()
+
+    const entries = this.entries.get(name) ?? []
+    entries.push({
+      startedDateTime: new Date().toISOString(),
+      time: 0,
+      request: {
+        method,
+        url: response.url(),
+        headers: requestHeaders,
+        ...(text === undefined ? {} : { postData: { mimeType: contentType(requestHeaders) || 'application/json', text } }),
+      },
+      response: {
+        status: response.status(),
+        statusText: response.statusText(),
+        headers: responseHeaders,
+        content: { mimeType: contentType(responseHeaders), text: responseText },
+      },
+    })
+    this.entries.set(name, entries)
+  }
+
+  /**
+   * Writes the cassette of a test, replacing an earlier recording. Does nothing when the test made no requests.
+   *
+   * @param {string} name - Cassette name.
+   */
+  save(name: string): void {
+    const entries = this.entries.get(name)
+    if (!entries) {
+      return
+    }
+    const cassette: Cassette = {
+      log: { version: '1.2', creator: { name: 'barrel-monitor-api-tests', version: '1.0.0' }, entries },
+    }
+    const file = path.join(this.dir, `${name}.har.json`)
+    mkdirSync(path.dirname(file), { recursive: true })
+    writeFileSync(file, `${JSON.stringify(cassette, null, 2)}\n`)
+    this.entries.delete(name)
+  }
+
+  /**
+   * Writes every cassette not saved yet.
+   */
+  saveAll(): void {
+    for (const name of [...this.entries.keys()]) {
+      this.save(name)
+    }
+  }
+}
+
+/**
+ * Creates the request hook of a cassette mode: in `record` mode it captures every exchange,
+ * in `replay` mode it names the cassette for the replay server and adds a `replay-miss` annotation
+ * for every request that has no recording. Exchanges outside a test, such as the cleanup of
+ * worker-scoped resources at worker teardown, belong to no cassette: they are neither recorded nor named.
+ *
+ * @param {CassetteMode} mode - Active cassette mode.
+ * @param {CassetteRecorder} recorder - Recorder of the worker.
+ * @param {(testInfo: TestInfo) => string} [nameOf] - Cassette of the running test's requests;
+ * `describeCassetteName` for worker-scoped requests.
+ * @returns {RequestHook} Hook for `withRequestHooks`.
+ */
+export function cassetteHook(
+  mode: CassetteMode,
+  recorder: CassetteRecorder,
+  nameOf: (testInfo: TestInfo) => string = cassetteName
+): RequestHook {
+  if (mode === 'record') {
+    return {
+      async afterResponse(exchange: ApiExchange) {
+        const testInfo = runningTestInfo()
+        if (testInfo) {
+          await recorder.record(nameOf(testInfo), exchange)
+        }
+      },
+    }
+  }
+
+  return {
+    requestHeaders(): Record<string, string> {
+      const testInfo = runningTestInfo()
+
+      return testInfo ? { [cassetteHeader]: nameOf(testInfo), [cassetteRetryHeader]: String(testInfo.retry) } : {}
+    },
+    afterResponse({ method, path: requestPath, response }: ApiExchange) {
+      if (response.headers()[replayMissHeader]) {
+        runningTestInfo()?.annotations.push({ type: 'replay-miss', description: `${method} ${requestPath}` })
+      }
+    },
+  }
+}
+
+/**
+ * Info of the running test, or `undefined` outside a test, e.g. during worker teardown.
+ */
+function runningTestInfo(): TestInfo | undefined {
+  try {
+    return test.info()
+  } catch {
+    return undefined
+  }
+}
+
+function nameAfter([file, ...titles]: string[]): string {
+  const slug = titles.join(' ').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 100)
+  const hash = createHash('sha1').update([file, ...titles].join('\u0000')).digest('hex').slice(0, 8)
+
+  return `${file}/${slug}-${hash}`
+}
@@ -0,0 +1,347 @@
+import Ajv2020, { ErrorObject, ValidateFunction } from 'ajv/dist/2020'
+import { z } from 'zod/v4'
+import addFormats from 'ajv-formats'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { ApiExchange, RequestHook } from './request-hooks.helper'
+
+/**
+ * A difference between an actual API exchange and the OpenAPI document.
+ */
+export interface ContractViolation {
+  /** Operation as `METHOD /path/template`, or the raw path when no operation matches. */
+  operation: string,
+  status: number,
+  /**
+   * Where the mismatch is: `status`, `content-type` or a JSON path into the response body such as `$[0].id`;
+   * mismatches of the request body are prefixed with `request`, e.g. `request $.qr`.
+   */
+  path: string,
+  message: string,
+}
+
+interface OpenApiResponse {
+  $ref?: string,
+  content?: Record<string, { schema?: object }>,
+}
+
+interface OpenApiOperation {
+  requestBody?: { content?: Record<string, { schema?: object }> },
+  responses: Record<string, OpenApiResponse>,
+}
+
+interface OpenApiDocument {
+  paths: Record<string, Record<string, OpenApiOperation>>,
+  components: { schemas: Record<string, object> },
+}
+
+const documentId = 'openapi.json'
+
+/**
+ * Type of the test annotation acknowledging a known deviation from the contract, with the violation path
+ * as description, e.g. `request $.weight`. Acknowledged violations are still attached but do not fail the test.
+ */
+export const contractDeviationAnnotation = 'contract-deviation'
+
+/**
+ * Default location of the Barrel Monitor OpenAPI document, overridable with `OPENAPI_DOCUMENT`.
+ */
+export const openApiDocumentPath = path.resolve(__dirname, '..', process.env['OPENAPI_DOCUMENT'] ?? 'openapi/barrel-monitor.openapi.json')
+
+/**
+ * Validates API exchanges against a local OpenAPI 3.1 document.
+ */
+export class OpenApiContract {
+  private readonly ajv = new Ajv2020({ strict: false, allErrors: true })
+  private readonly validators = new Map<string, ValidateFunction>()
+
+  constructor(readonly document: OpenApiDocument) {
+    addFormats(this.ajv)
+    this.ajv.addSchema(document, documentId)
+  }
+
+  /**
+   * Loads and parses an OpenAPI document from disk.
+   *
+   * @param {string} [file] - Path to the JSON document.
+   * @returns {OpenApiContract} Contract ready for validation.
+   */
+  static load(file: string = openApiDocumentPath): OpenApiContract {
+    return new OpenApiContract(JSON.parse(readFileSync(file, 'utf8')))
+  }
+
+  /**
+   * Finds the path template declared for a concrete request path.
+   *
+   * @param {string} requestPath - Request path such as `/barrels/123`.
+   * @returns {string | undefined} Matching template such as `/barrels/{id}`.
+   */
+  matchPath(requestPath: string): string | undefined {
+    const segments = requestPath.split('/').filter(Boolean)
+
+    return Object.keys(this.document.paths).find((template) => {
+      const templateSegments = template.split('/').filter(Boolean)
+
+      return templateSegments.length === segments.length &&
+        templateSegments.every((segment, i) => /^{.+}$/.test(segment) || segment === segments[i])
+    })
+  }
+
+  /**
+   * Returns a schema from `components.schemas`, with `$ref`s still pointing into the document.
+   *
+   * @param {string} name - Component name, e.g. `Barrel`.
+   * @returns {object} JSON Schema of the component.
+   */
+  componentSchema(name: string): object {
+    const schema = this.document.components.schemas[name]
+    if (!schema) {
+      throw new Error(`Schema '${name}' is not declared in the OpenAPI document`)
+    }
+
+    return schema
+  }
+
+  /**
+   * Checks an exchange against the declared operation, status code, content type and body schema.
+   * Requests to undeclared operations are only allowed to be answered with 404 or 405.
+   *
+   * @param {string} method - HTTP method of the request.
+   * @param {string} requestPath - Request path without query.
+   * @param {number} status - Response status code.
+   * @param {string | undefined} contentType - Response `content-type` header.
+   * @param {unknown} body - Parsed response body, `undefined` when empty.
+   * @returns {ContractViolation[]} Every mismatch found; empty when the exchange conforms.
+   */
+  validate(method: string, requestPath: string, status: number, contentType: string | undefined, body: unknown): ContractViolation[] {
+    const template = this.matchPath(requestPath)
+    const operationKey = method.toLowerCase()
+    const operation = template === undefined ? undefined : this.document.paths[template][operationKey]
+    const name = `${method} ${template ?? requestPath}`
+    if (!operation) {
+      const expected = template === undefined ? [404] : [404, 405]
+
+      return expected.includes(status)
+        ? []
+        : [{ operation: name, status, path: 'status', message: `operation is not declared, expected ${expected.join(' or ')}` }]
+    }
+
+    const statusKey = String(status) in operation.responses ? String(status) : 'default'
+    const declared = operation.responses[statusKey]
+    const response = declared?.$ref ? resolvePointer<OpenApiResponse>(this.document, declared.$ref) : declared
+    if (!response) {
+      return [{
+        operation: name,
+        status,
+        path: 'status',
+        message: `status is not declared, expected one of ${Object.keys(operation.responses).join(', ')}`,
+      }]
+    }
+
+    const mediaTypes = Object.keys(response.content ?? {})
+    if (mediaTypes.length === 0) {
+      return body === undefined ? [] : [{ operation: name, status, path: '$', message: 'response must not have a body' }]
+    }
+    const mediaType = contentType?.split(';')[0].trim().toLowerCase()
+    if (!mediaType || !mediaTypes.includes(mediaType)) {
+      return [{
+        operation: name,
+        status,
+        path: 'content-type',
+        message: `'${contentType ?? ''}' is not declared, expected ${mediaTypes.join(' or ')}`,
+      }]
+    }
+
+    const responsePointer = declared?.$ref ?? ['#', 'paths', template as string, operationKey, 'responses', statusKey].map(escapePointer).join('/')
+    const validator = this.validator(`${responsePointer}/content/${escapePointer(mediaType)}/schema`)
+    if (validator(body)) {
+      return []
+    }
+
+    return (validator.errors ?? []).map((error) => ({ operation: name, status, path: toJsonPath(error), message: error.message ?? error.keyword }))
+  }
+
+  /**
+   * Checks the body of a request the API accepted against the declared request body schema.
+   * The suite sends non-conforming bodies on purpose to test validation, so a request only violates
+   * the contract when it was answered with a `2xx` status: the API then accepted a body its contract rejects.
+   *
+   * @param {string} method - HTTP method of the request.
+   * @param {string} requestPath - Request path without query.
+   * @param {number} status - Response status code.
+   * @param {unknown} data - Request body as passed to the request, an object or a raw JSON string.
+   * @returns {ContractViolation[]} Every mismatch found; empty when the body conforms or the request was rejected.
+   */
+  validateRequest(method: string, requestPath: string, status: number, data: unknown): ContractViolation[] {
+    const template = this.matchPath(requestPath)
+    const operationKey = method.toLowerCase()
+    const operation = template === undefined ? undefined : this.document.paths[template][operationKey]
+    if (!operation?.requestBody?.content?.['application/json'] || status < 200 || status > 299) {
+      return []
+    }
+    const name = `${method} ${template}`
+    let body = data
+    if (typeof data === 'string') {
+      try {
+        body = JSON.parse(data)
+      } catch {
+        return [{ operation: name, status, path: 'request $', message: 'body is not valid JSON' }]
+      }
+    }
+
+    const pointer = ['#', 'paths', template as string, operationKey, 'requestBody', 'content', 'application/json', 'schema']
+      .map(escapePointer)
+      .join('/')
+    const validator = this.validator(pointer)
+    if (validator(body)) {
+      return []
+    }
+
+    return (validator.errors ?? []).map((error) => ({
+      operation: name,
+      status,
+      path: `request ${toJsonPath(error)}`,
+      message: error.message ?? error.keyword,
+    }))
+  }
+
+  private validator(schemaPointer: string): ValidateFunction {
+    let validator = this.validators.get(schemaPointer)
+    if (!validator) {
+      validator = this.ajv.compile({ $ref: `${documentId}${schemaPointer}` })
+      this.validators.set(schemaPointer, validator)
+    }
+
+    return validator
+  }
+}
+
+/**
+ * Creates a request hook that validates every response, and the body of every accepted request,
+ * against the contract and collects the mismatches into `violations`.
+ *
+ * @param {OpenApiContract} contract - Loaded OpenAPI contract.
+ * @param {ContractViolation[]} violations - Array receiving the mismatches.
+ * @returns {RequestHook} Hook for `withRequestHooks`.
+ */
+export function contractValidationHook(contract: OpenApiContract, violations: ContractViolation[]): RequestHook {
+  return {
+    async afterResponse({ method, path: requestPath, data, response }: ApiExchange) {
+      const contentType = response.headers()['content-type']
+      const text = await response.text()
+      let body: unknown = undefined
+      if (text) {
+        try {
+          body = JSON.parse(text)
+        } catch {
+          body = text
+        }
+      }
+      violations.push(
+        ...contract.validateRequest(method, requestPath, response.status(), data),
+        ...contract.validate(method, requestPath, response.status(), contentType, body)
+      )
+    },
+  }
+}
+
+/**
+ * Drops the violations a test acknowledged with a `contract-deviation` annotation.
+ *
+ * @param {ContractViolation[]} violations - Violations of the test.
+ * @param {{ type: string, description?: string }[]} annotations - Annotations of the test.
+ * @returns {ContractViolation[]} Violations that were not acknowledged.
+ */
+export function unacknowledgedViolations(violations: ContractViolation[], annotations: { type: string, description?: string }[]): ContractViolation[] {
+  const acknowledged = annotations.filter(({ type }) => type === contractDeviationAnnotation).map(({ description }) => description)
+
+  return violations.filter(({ path: where }) => !acknowledged.includes(where))
+}
+
+/**
+ * Formats contract violations one per line, e.g. `POST /barrels 201 $.id: must match format "uuid"`.
+ *
+ * @param {ContractViolation[]} violations - Mismatches to format.
+ * @returns {string} Human-readable report.
+ */
+export function formatContractViolations(violations: ContractViolation[]): string {
+  return violations.map(({ operation, status, path: where, message }) => `${operation} ${status} ${where}: ${message}`).join('\n')
+}
+
+const boundKeywords = ['minLength', 'maxLength', 'minimum', 'exclusiveMinimum', 'maximum', 'exclusiveMaximum'] as const
+
+type JsonSchemaProperty = { type?: string | string[], format?: string } & Partial<Record<typeof boundKeywords[number], number>>
+
+interface JsonSchemaObject {
+  properties?: Record<string, JsonSchemaProperty>,
+  required?: string[],
+}
+
+/**
+ * Cross-checks a hand-written zod model against a schema declared in the OpenAPI document.
+ * Compares property names, required properties, JSON types, string formats and bounds (lengths and ranges).
+ * Bounds of `float` properties are compared after rounding to float32, since .NET documents
+ * `float.MaxValue` as `3.4028235E+38`.
+ *
+ * @param {z.ZodType} model - Zod schema from `models/`.
+ * @param {OpenApiContract} contract - Loaded OpenAPI contract.
+ * @param {string} componentName - Name in `components.schemas`, e.g. `Barrel`.
+ * @returns {string[]} One message per difference; empty when the model matches.
+ */
+export function compareModelWithContract(model: z.ZodType, contract: OpenApiContract, componentName: string): string[] {
+  const actual = z.toJSONSchema(model) as JsonSchemaObject
+  const declared = contract.componentSchema(componentName) as JsonSchemaObject
+  const differences: string[] = []
+  const names = new Set([...Object.keys(actual.properties ?? {}), ...Object.keys(declared.properties ?? {})])
+  for (const name of names) {
+    const modelProperty = actual.properties?.[name]
+    const declaredProperty = declared.properties?.[name]
+    if (!modelProperty || !declaredProperty) {
+      differences.push(`${componentName}.${name}: ${modelProperty ? 'not declared in the OpenAPI document' : 'missing in the zod model'}`)
+      continue
+    }
+    if (String(modelProperty.type) !== String(declaredProperty.type)) {
+      differences.push(`${componentName}.${name}: type is '${modelProperty.type}' in the zod model but '${declaredProperty.type}' in the OpenAPI document`)
+    }
+    if (declaredProperty.type === 'string' && modelProperty.format !== declaredProperty.format) {
+      differences.push(`${componentName}.${name}: format is '${modelProperty.format}' in the zod model but '${declaredProperty.format}' in the OpenAPI document`)
+    }
+    differences.push(...compareBounds(`${componentName}.${name}`, modelProperty, declaredProperty))
+    const requiredInModel = actual.required?.includes(name) ?? false
+    const requiredInContract = declared.required?.includes(name) ?? false
+    if (requiredInModel !== requiredInContract) {
+      differences.push(`${componentName}.${name}: ${requiredInModel ? 'required' : 'optional'} in the zod model but ${requiredInContract ? 'required' : 'optional'} in the OpenAPI document`)
+    }
+  }
+
+  return differences
+}
+
+function compareBounds(name: string, modelProperty: JsonSchemaProperty, declaredProperty: JsonSchemaProperty): string[] {
+  const asDeclared = (bound: number | undefined): number | undefined =>
+    bound !== undefined && declaredProperty.format === 'float' ? Math.fround(bound) : bound
+
+  return boundKeywords
+    .filter((keyword) => asDeclared(modelProperty[keyword]) !== asDeclared(declaredProperty[keyword]))
+    .map((keyword) => `${name}: ${keyword} is ${modelProperty[keyword] ?? 'unset'} in the zod model but ${declaredProperty[keyword] ?? 'unset'} in the OpenAPI document`)
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function resolvePointer<T>(document: object, pointer: string): T | undefined {
+  return pointer.replace(/^#\//, '').split('/').reduce<unknown>(
+    (node, segment) => (node as Record<string, unknown> | undefined)?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')],
+    document
+  ) as T | undefined
+}
+
+function toJsonPath(error: ErrorObject): string {
+  const segments = error.instancePath.split('/').filter(Boolean)
+  if (error.keyword === 'required') {
+    segments.push(String(error.params.missingProperty))
+  }
+
+  return segments.reduce((jsonPath, segment) => /^\d+$/.test(segment) ? `${jsonPath}[${segment}]` : `${jsonPath}.${segment}`, '$')
+}
@@ -0,0 +1,268 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { BarrelApi } from '../api/barrel.api'
+import { MeasurementApi } from '../api/measurement.api'
+import { Barrel, barrelObject, tagKinds } from '../models/barrel.model'
+import { Measurement, measurementObject } from '../models/measurement.model'
+import { schemaIssues } from './matchers.helper'
+
+/**
+ * A barrel of a dataset file; `alias` is a local name that measurements use to refer to it,
+ * since its id is only known once it is created.
+ */
+export type DatasetBarrel = Omit<Barrel, 'id'> & { alias: string }
+
+/**
+ * A measurement of a dataset file, referring to its barrel by alias.
+ */
+export type DatasetMeasurement = Omit<Measurement, 'id' | 'barrelId'> & { barrel: string }
+
+/**
+ * Barrels and measurements to create, read from JSON or CSV files.
+ */
+export interface Dataset {
+  barrels: DatasetBarrel[],
+  measurements: DatasetMeasurement[],
+}
+
+/**
+ * Ids created by a seeding run, written to disk so the data can be purged later.
+ */
+export interface SeedManifest {
+  baseURL: string,
+  /** Start of the run, ISO 8601. */
+  createdAt: string,
+  barrels: { alias: string, id: string }[],
+  measurements: { barrel: string, id: string }[],
+}
+
+/**
+ * Outcome of a purge: deleted ids, ids that were already gone, and failures.
+ */
+export interface PurgeResult {
+  deleted: string[],
+  missing: string[],
+  failed: string[],
+}
+
+const measurementPayload = measurementObject.omit({ id: true, barrelId: true })
+
+/**
+ * Reads and merges dataset files. A JSON file holds `{ barrels, measurements }`, either part optional.
+ * A CSV file holds one kind with a header row: `alias,qr,rfid,nfc` for barrels or
+ * `barrel,dirtLevel,weight` for measurements.
+ *
+ * @param {string[]} files - Paths of `.json` and `.csv` files.
+ * @returns {Dataset} All barrels and measurements in file order.
+ */
+export function loadDataset(files: string[]): Dataset {
+  const dataset: Dataset = { barrels: [], measurements: [] }
+  for (const file of files) {
+    const text = readFileSync(file, 'utf8')
+    const part = path.extname(file).toLowerCase() === '.csv' ? csvDataset(text, file) : JSON.parse(text) as Partial<Dataset>
+    dataset.barrels.push(...part.barrels ?? [])
+    dataset.measurements.push(...part.measurements ?? [])
+  }
+
+  return dataset
+}
+
+/**
+ * Parses CSV with a header row into one record per line. Fields may be quoted, with `""` for a quote.
+ *
+ * @param {string} text - CSV content.
+ * @returns {Record<string, string>[]} Rows keyed by the header names.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      rows.push([...row, field])
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  rows.push([...row, field])
+
+  const [header = [], ...records] = rows.filter((cells) => cells.some((cell) => cell.trim() !== ''))
+
+  return records.map((cells) => Object.fromEntries(header.map((name, i) => [name.trim(), cells[i] ?? ''])))
+}
+
+/**
+ * Checks a dataset before anything is sent: every barrel and measurement against the zod models,
+ * unique aliases, known barrel references, and tags used by more than one barrel of the dataset.
+ *
+ * @param {Dataset} dataset - Loaded dataset.
+ * @returns {string[]} One line per problem, e.g. `barrels[1] (b2): $.qr: Too small`; empty when valid.
+ */
+export function validateDataset({ barrels, measurements }: Dataset): string[] {
+  const problems: string[] = []
+  const aliases = new Set<string>()
+  barrels.forEach(({ alias, ...barrel }, i) => {
+    const label = `barrels[${i}] (${alias})`
+    if (!alias) {
+      problems.push(`barrels[${i}]: alias is missing`)
+    } else if (aliases.has(alias)) {
+      problems.push(`${label}: alias is used by an earlier barrel`)
+    }
+    aliases.add(alias)
+    problems.push(...schemaIssues(barrelObject.strict(), barrel).map((issue) => `${label}: ${issue}`))
+  })
+  for (const kind of tagKinds) {
+    const seen = new Map<unknown, string>()
+    for (const barrel of barrels) {
+      const owner = seen.get(barrel[kind])
+      if (owner !== undefined) {
+        problems.push(`${kind} ${JSON.stringify(barrel[kind])} is used by barrels ${owner} and ${barrel.alias}`)
+      }
+      seen.set(barrel[kind], barrel.alias)
+    }
+  }
+  measurements.forEach(({ barrel, ...measurement }, i) => {
+    const label = `measurements[${i}]`
+    if (!aliases.has(barrel)) {
+      problems.push(`${label}: refers to unknown barrel ${JSON.stringify(barrel)}`)
+    }
+    problems.push(...schemaIssues(measurementPayload.strict(), measurement).map((issue) => `${label}: ${issue}`))
+  })
+
+  return problems
+}
+
+/**
+ * Creates the barrels, then their measurements with the ids of the created barrels. Stops at the first
+ * rejected request; the manifest lists everything created up to then, so it can still be purged.
+ *
+ * @param {BarrelApi} barrelApi - Barrel client.
+ * @param {MeasurementApi} measurementApi - Measurement client.
+ * @param {Dataset} dataset - Validated dataset.
+ * @param {string} baseURL - Environment the data is created in, recorded in the manifest.
+ * @returns {Promise<{ manifest: SeedManifest, error?: string }>} Created ids and the failed request, if any.
+ */
+export async function seedDataset(
+  barrelApi: BarrelApi,
+  measurementApi: MeasurementApi,
+  { barrels, measurements }: Dataset,
+  baseURL: string
+): Promise<{ manifest: SeedManifest, error?: string }> {
+  const manifest: SeedManifest = { baseURL, createdAt: new Date().toISOString(), barrels: [], measurements: [] }
+  const ids = new Map<string, string>()
+  for (const { alias, ...barrel } of barrels) {
+    const result = await barrelApi.create(barrel)
+    if (result.status !== 201) {
+      return { manifest, error: `Barrel ${alias}: POST ${BarrelApi.endpoint} answered ${result.status} ${JSON.stringify(result.body)}` }
+    }
+    ids.set(alias, result.body.id as string)
+    manifest.barrels.push({ alias, id: result.body.id as string })
+  }
+  for (const [i, { barrel, ...measurement }] of measurements.entries()) {
+    const result = await measurementApi.create({ ...measurement, barrelId: ids.get(barrel) })
+    if (result.status !== 201) {
+      return { manifest, error: `measurements[${i}]: POST ${MeasurementApi.endpoint} answered ${result.status} ${JSON.stringify(result.body)}` }
+    }
+    manifest.measurements.push({ barrel, id: result.body.id as string })
+  }
+
+  return { manifest }
+}
+
+/**
+ * Deletes the measurements and barrels of a manifest. Items that are already gone, e.g. measurements
+ * removed together with their barrel, are reported as missing rather than failed.
+ *
+ * @param {BarrelApi} barrelApi - Barrel client.
+ * @param {MeasurementApi} measurementApi - Measurement client.
+ * @param {SeedManifest} manifest - Manifest of a seeding run.
+ * @returns {Promise<PurgeResult>} Outcome per id.
+ */
+export async function purgeManifest(barrelApi: BarrelApi, measurementApi: MeasurementApi, manifest: SeedManifest): Promise<PurgeResult> {
+  const outcome: PurgeResult = { deleted: [], missing: [], failed: [] }
+  for (const { id } of manifest.measurements) {
+    record(outcome, id, (await measurementApi.delete(id)).status)
+  }
+  for (const { id } of manifest.barrels) {
+    record(outcome, id, (await barrelApi.delete(id)).status)
+  }
+
+  return outcome
+}
+
+/**
+ * Deletes every barrel whose `qr` starts with the prefix; the API removes their measurements with them.
+ *
+ * @param {BarrelApi} barrelApi - Barrel client.
+ * @param {string} prefix - Non-empty `qr` prefix, e.g. `demo-`.
+ * @returns {Promise<PurgeResult>} Outcome per barrel id.
+ */
+export async function purgeByQrPrefix(barrelApi: BarrelApi, prefix: string): Promise<PurgeResult> {
+  if (!prefix) {
+    throw new Error('Refusing to purge with an empty qr prefix, which matches every barrel')
+  }
+  const listing = await barrelApi.list()
+  if (listing.status !== 200 || !Array.isArray(listing.body)) {
+    throw new Error(`GET ${BarrelApi.endpoint} answered ${listing.status}, expected 200 with an array`)
+  }
+  const outcome: PurgeResult = { deleted: [], missing: [], failed: [] }
+  for (const { id } of listing.body.filter(({ qr }) => qr.startsWith(prefix))) {
+    record(outcome, id as string, (await barrelApi.delete(id as string)).status)
+  }
+
+  return outcome
+}
+
+function csvDataset(text: string, file: string): Partial<Dataset> {
+  const rows = parseCsv(text)
+  const columns = Object.keys(rows[0] ?? {})
+  if (columns.includes('barrel')) {
+    // Numbers stay strings when they do not parse, so validation reports them instead of sending NaN
+    return {
+      measurements: rows.map(({ barrel, dirtLevel, weight }) => ({
+        barrel,
+        dirtLevel: toNumber(dirtLevel),
+        weight: toNumber(weight),
+      }) as DatasetMeasurement),
+    }
+  }
+  if (columns.includes('alias')) {
+    return { barrels: rows.map(({ alias, qr, rfid, nfc }) => ({ alias, qr, rfid, nfc })) }
+  }
+  throw new Error(`${file}: expected a header with 'alias,qr,rfid,nfc' or 'barrel,dirtLevel,weight'`)
+}
+
+function toNumber(value: string | undefined): number | string | undefined {
+  return value !== undefined && value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : value
+}
+
+function record(outcome: PurgeResult, id: string, status: number): void {
+  if (status === 204) {
+    outcome.deleted.push(id)
+  } else if (status === 404) {
+    outcome.missing.push(id)
+  } else {
+    outcome.failed.push(id)
+  }
+}
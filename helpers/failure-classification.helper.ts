@@ -0,0 +1,123 @@
+import { TestInfo } from '@playwright/test'
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+import { ApiExchange, RequestHook } from './request-hooks.helper'
+
+/**
+ * Cause of a failed test attempt: the API could not be reached or timed out, the server answered
+ * with a 5xx status, or the API answered and the response did not match the expectation.
+ */
+export const failureClasses = ['network', 'server-error', 'assertion'] as const
+
+export type FailureClass = typeof failureClasses[number]
+
+/**
+ * Infrastructure failures, the only ones a retry can fix.
+ */
+export const retriedFailureClasses: readonly FailureClass[] = ['network', 'server-error']
+
+/**
+ * Annotation carrying the class of a failed attempt; read by the test history reporter.
+ */
+export const failureClassAnnotation = 'failure-class'
+
+/**
+ * Errors of the request context itself (connection refused or reset, DNS, request timeout)
+ * as opposed to failed expectations on a response.
+ */
+const networkErrorPattern = /apiRequestContext\.\w+:|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up/
+
+/**
+ * Classifies a failed attempt. Network errors and test timeouts win over server errors,
+ * which win over assertion mismatches, since a broken connection or a 5xx usually makes
+ * some assertion fail as well.
+ *
+ * @param {{ message?: string }[]} errors - Errors of the attempt.
+ * @param {boolean} timedOut - Whether the attempt exceeded the test timeout.
+ * @param {string[]} serverErrors - 5xx responses received during the attempt.
+ * @returns {FailureClass} Class of the failure.
+ */
+export function classifyFailure(errors: { message?: string }[], timedOut: boolean, serverErrors: string[]): FailureClass {
+  if (timedOut || errors.some(({ message }) => networkErrorPattern.test(message ?? ''))) {
+    return 'network'
+  }
+
+  return serverErrors.length > 0 ? 'server-error' : 'assertion'
+}
+
+/**
+ * Creates a request hook that records every 5xx response, e.g. `GET /barrels 503`.
+ *
+ * @param {string[]} serverErrors - Array receiving the responses.
+ * @returns {RequestHook} Hook for `withRequestHooks`.
+ */
+export function serverErrorHook(serverErrors: string[]): RequestHook {
+  return {
+    afterResponse({ method, path: requestPath, response }: ApiExchange) {
+      if (response.status() >= 500) {
+        serverErrors.push(`${method} ${requestPath} ${response.status()}`)
+      }
+    },
+  }
+}
+
+/**
+ * Stores the class of a failed attempt, so the retry, which runs in a new worker, can read it.
+ *
+ * @param {TestInfo} testInfo - Info of the failed attempt.
+ * @param {FailureClass} failureClass - Class of the failure.
+ */
+export function saveFailureClass(testInfo: TestInfo, failureClass: FailureClass): void {
+  const file = attemptFile(testInfo, testInfo.retry)
+  mkdirSync(path.dirname(file), { recursive: true })
+  writeFileSync(file, JSON.stringify({ failureClass }))
+}
+
+/**
+ * Reads the class of the previous attempt of a retried test.
+ *
+ * @param {TestInfo} testInfo - Info of the retry.
+ * @returns {FailureClass | undefined} Class of the previous failure, `undefined` when unknown.
+ */
+export function previousFailureClass(testInfo: TestInfo): FailureClass | undefined {
+  const file = attemptFile(testInfo, testInfo.retry - 1)
+
+  return existsSync(file) ? (JSON.parse(readFileSync(file, 'utf8')) as { failureClass: FailureClass }).failureClass : undefined
+}
+
+/**
+ * Records that the retry of a test was skipped because the previous attempt failed with a class
+ * a retry cannot fix. Playwright counts a failed attempt followed by a skipped retry as flaky,
+ * so the global teardown fails the run for these tests.
+ *
+ * @param {TestInfo} testInfo - Info of the skipped retry.
+ * @param {FailureClass} failureClass - Class of the previous failure.
+ */
+export function saveNotRetried(testInfo: TestInfo, failureClass: FailureClass): void {
+  const file = path.join(testInfo.project.outputDir, '.failure-classes', 'not-retried', `${testInfo.testId}.json`)
+  mkdirSync(path.dirname(file), { recursive: true })
+  writeFileSync(file, JSON.stringify({ title: testInfo.titlePath.join(' › '), failureClass }))
+}
+
+/**
+ * Lists the tests whose retry was skipped in the current run, e.g. `barrels.spec.ts › Create barrel (assertion)`.
+ *
+ * @param {string} outputDir - Output directory of the project, cleared by Playwright at the start of a run.
+ * @returns {string[]} Titles of the tests with the class of their failure.
+ */
+export function loadNotRetried(outputDir: string): string[] {
+  const dir = path.join(outputDir, '.failure-classes', 'not-retried')
+  if (!existsSync(dir)) {
+    return []
+  }
+
+  return readdirSync(dir).map((file) => {
+    const { title, failureClass } = JSON.parse(readFileSync(path.join(dir, file), 'utf8')) as { title: string, failureClass: FailureClass }
+
+    return `${title} (${failureClass})`
+  })
+}
+
+function attemptFile(testInfo: TestInfo, retry: number): string {
+  return path.join(testInfo.project.outputDir, '.failure-classes', `${testInfo.testId}-${retry}.json`)
+}
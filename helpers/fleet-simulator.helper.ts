@@ -0,0 +1,169 @@
+import { TestInfo } from '@playwright/test'
+import { en, Faker } from '@faker-js/faker'
+import { BarrelApi } from '../api/barrel.api'
+import { MeasurementApi } from '../api/measurement.api'
+import { Barrel } from '../models/barrel.model'
+import { Measurement } from '../models/measurement.model'
+import { expect } from './matchers.helper'
+import { testSeed } from './seed.helper'
+
+/**
+ * Shape of the measurement history every simulated barrel follows.
+ * A barrel is filled, drained and filled again while its dirt level rises
+ * by a little with every reading and drops back when the barrel is cleaned at empty.
+ */
+export interface FleetProfile {
+  /** Number of barrels in the fleet. */
+  barrels: number,
+  /** Number of readings posted per barrel. */
+  readings: number,
+  /** Weight of an empty barrel, in kg. */
+  tare: number,
+  /** Weight of the contents of a full barrel, in kg. */
+  capacity: number,
+  /** Readings it takes to fill an empty barrel. */
+  fillReadings: number,
+  /** Readings it takes to drain a full barrel. */
+  drainReadings: number,
+  /** Dirt level (%) of a clean barrel, the increase per reading and the level it cannot exceed. */
+  contamination: { clean: number, perReading: number, max: number },
+  /** Relative random deviation of every reading, e.g. `0.02` for ±2 %. */
+  noise: number,
+}
+
+/**
+ * A barrel created by the simulator together with the readings posted for it, in posting order.
+ */
+export interface SimulatedBarrel {
+  barrel: Barrel,
+  measurements: Measurement[],
+}
+
+/**
+ * Profile used when none is given; fleet size and history length come from `FLEET_SIZE` and `FLEET_READINGS`.
+ */
+export const defaultFleetProfile: FleetProfile = {
+  barrels: Number(process.env['FLEET_SIZE'] ?? 5),
+  readings: Number(process.env['FLEET_READINGS'] ?? 24),
+  tare: 15,
+  capacity: 180,
+  fillReadings: 6,
+  drainReadings: 4,
+  contamination: { clean: 0.5, perReading: 1.75, max: 100 },
+  noise: 0.02,
+}
+
+/**
+ * Seed of the simulation, taken from `FLEET_SEED`, otherwise the seed of the test,
+ * so the run seed reproduces the simulation too.
+ *
+ * @param {TestInfo} testInfo - Info of the running test.
+ * @returns {number} Seed for `simulateFleet`.
+ */
+export function fleetSeed(testInfo: TestInfo): number {
+  return process.env['FLEET_SEED'] ? Number(process.env['FLEET_SEED']) : testSeed(testInfo)
+}
+
+/**
+ * Computes the readings of one barrel. Each barrel starts at a random point of the
+ * fill/drain cycle, so the fleet is not in lockstep.
+ *
+ * @param {FleetProfile} profile - Curves to follow.
+ * @param {string} barrelId - Barrel the readings belong to.
+ * @param {Faker} random - Seeded Faker instance.
+ * @returns {Measurement[]} Readings in time order.
+ */
+export function simulateHistory(profile: FleetProfile, barrelId: string, random: Faker): Measurement[] {
+  const cycle = profile.fillReadings + profile.drainReadings
+  const offset = random.number.int({ min: 0, max: cycle - 1 })
+  const jitter = (): number => 1 + random.number.float({ min: -profile.noise, max: profile.noise })
+  const history: Measurement[] = []
+  let dirtLevel = profile.contamination.clean
+
+  for (let reading = 0; reading < profile.readings; reading++) {
+    const position = (reading + offset) % cycle
+    const fill = position < profile.fillReadings
+      ? position / profile.fillReadings
+      : 1 - (position - profile.fillReadings) / profile.drainReadings
+    if (position === 0) {
+      dirtLevel = profile.contamination.clean
+    }
+
+    history.push({
+      barrelId,
+      dirtLevel: round(Math.min(dirtLevel * jitter(), profile.contamination.max), 2),
+      weight: round((profile.tare + profile.capacity * fill) * jitter(), 1),
+    })
+    dirtLevel += profile.contamination.perReading
+  }
+
+  return history
+}
+
+/**
+ * ULIDs embed their creation time; a fixed one keeps the fleet reproducible from its seed.
+ */
+const fleetEpoch = new Date('2025-01-01T00:00:00Z')
+
+/**
+ * Creates a fleet of barrels and posts their histories the way the devices would report them:
+ * one reading per barrel per time step, in time order.
+ *
+ * @param {BarrelApi} barrelApi - Client used to create the barrels.
+ * @param {MeasurementApi} measurementApi - Client used to post the readings.
+ * @param {number} seed - Seed of the simulation; the same seed gives the same fleet.
+ * @param {FleetProfile} [profile] - Curves and fleet size.
+ * @returns {Promise<SimulatedBarrel[]>} Created barrels with the measurements as returned by the API.
+ */
+export async function simulateFleet(
+  barrelApi: BarrelApi,
+  measurementApi: MeasurementApi,
+  seed: number,
+  profile: FleetProfile = defaultFleetProfile
+): Promise<SimulatedBarrel[]> {
+  const random = new Faker({ locale: en, seed })
+  const fleet: SimulatedBarrel[] = []
+  const histories: Measurement[][] = []
+  for (let i = 0; i < profile.barrels; i++) {
+    const result = await barrelApi.create({ qr: random.string.nanoid(), rfid: random.string.ulid({ refDate: fleetEpoch }), nfc: random.string.alpha(20) })
+    expect(result.status, 'barrel created').toBe(201)
+    fleet.push({ barrel: result.body, measurements: [] })
+    histories.push(simulateHistory(profile, result.body.id as string, random))
+  }
+
+  for (let reading = 0; reading < profile.readings; reading++) {
+    for (const [i, { measurements }] of fleet.entries()) {
+      const result = await measurementApi.create(histories[i][reading])
+      expect(result.status, `reading ${reading} of barrel ${i} created`).toBe(201)
+      expect(result, `reading ${reading} of barrel ${i} returned`).toBeValidMeasurement(histories[i][reading])
+      measurements.push(result.body)
+    }
+  }
+
+  return fleet
+}
+
+/**
+ * Asserts that a `/measurements` listing holds exactly the readings posted for every
+ * simulated barrel — nothing missing, nothing extra — with their values unchanged.
+ *
+ * @param {Measurement[]} listing - Body of `GET /measurements`.
+ * @param {SimulatedBarrel[]} fleet - Result of `simulateFleet`.
+ */
+export function checkFleetListing(listing: Measurement[], fleet: SimulatedBarrel[]): void {
+  for (const { barrel, measurements } of fleet) {
+    const listed = listing.filter((measurement) => measurement.barrelId === barrel.id)
+
+    expect(sortById(listed), `measurements of barrel ${barrel.id}`).toEqual(sortById(measurements))
+  }
+}
+
+function sortById(measurements: Measurement[]): Measurement[] {
+  return [...measurements].sort((a, b) => String(a.id).localeCompare(String(b.id)))
+}
+
+function round(value: number, fractionDigits: number): number {
+  const factor = 10 ** fractionDigits
+
+  return Math.round(value * factor) / factor
+}
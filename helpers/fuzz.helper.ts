@@ -0,0 +1,205 @@
+import fc from 'fast-check'
+import { expect, TestInfo } from '@playwright/test'
+import { z } from 'zod/v4'
+import { float32Max } from '../models/limits.model'
+import { float32Equals } from '../models/numeric-rules.model'
+import { testSeed } from './seed.helper'
+
+/**
+ * Constraints of a single property, read from a zod object schema.
+ */
+export interface FieldSpec {
+  name: string,
+  type: 'string' | 'number',
+  optional: boolean,
+  format?: string,
+  minimum?: number,
+  /** Lower limit that is itself invalid, e.g. `0` for a positive number. */
+  exclusiveMinimum?: number,
+  maximum?: number,
+}
+
+/**
+ * A payload with exactly one broken field.
+ */
+export interface InvalidPayload {
+  payload: Record<string, unknown>,
+  field: string,
+  kind: string,
+}
+
+const guidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Seed and number of iterations for property-based runs, taken from `FUZZ_SEED` and `FUZZ_RUNS`.
+ * Without `FUZZ_SEED` the seed of the test is used, so the run seed reproduces the fuzzing too;
+ * fast-check prints it on failure.
+ *
+ * @param {TestInfo} testInfo - Info of the running test.
+ * @returns {{ seed: number, numRuns: number }} Parameters for `fc.assert`.
+ */
+export function fuzzParameters(testInfo: TestInfo): { seed: number, numRuns: number } {
+  return {
+    seed: process.env['FUZZ_SEED'] ? Number(process.env['FUZZ_SEED']) : testSeed(testInfo),
+    numRuns: Number(process.env['FUZZ_RUNS'] ?? 200),
+  }
+}
+
+/**
+ * Reads the properties of a zod object schema together with their constraints.
+ *
+ * @param {z.ZodObject} schema - Model such as `barrelObject`.
+ * @returns {FieldSpec[]} One entry per property.
+ */
+export function describeFields(schema: z.ZodObject): FieldSpec[] {
+  return Object.entries(schema.shape).map(([name, property]) => {
+    const optional = property instanceof z.ZodOptional
+    const inner = (optional ? property.unwrap() : property) as z.ZodType
+    const bag = inner._zod.bag as { format?: string, minimum?: number, exclusiveMinimum?: number, maximum?: number }
+
+    return {
+      name,
+      type: inner._zod.def.type === 'number' ? 'number' : 'string',
+      optional,
+      format: bag.format,
+      minimum: bag.minimum,
+      exclusiveMinimum: bag.exclusiveMinimum,
+      maximum: bag.maximum,
+    }
+  })
+}
+
+/**
+ * Builds an arbitrary of payloads that satisfy the schema.
+ * Optional properties are left out; `overrides` replace generated values, e.g. to
+ * point a measurement at an existing barrel.
+ *
+ * @param {z.ZodObject} schema - Model such as `barrelObject`.
+ * @param {Record<string, unknown>} [overrides] - Fixed values for some properties.
+ * @returns {fc.Arbitrary<Record<string, unknown>>} Valid payloads.
+ */
+export function validPayload(schema: z.ZodObject, overrides: Record<string, unknown> = {}): fc.Arbitrary<Record<string, unknown>> {
+  const fields = describeFields(schema).filter((field) => !field.optional)
+  const record: Record<string, fc.Arbitrary<unknown>> = {}
+  for (const field of fields) {
+    record[field.name] = field.name in overrides ? fc.constant(overrides[field.name]) : validValue(field)
+  }
+
+  return fc.record(record)
+}
+
+/**
+ * Builds an arbitrary of payloads where every property is valid except one,
+ * which is missing, null, empty, of the wrong type or outside its constraints.
+ *
+ * @param {z.ZodObject} schema - Model such as `barrelObject`.
+ * @param {Record<string, unknown>} [overrides] - Fixed values for the properties that stay valid.
+ * @returns {fc.Arbitrary<InvalidPayload>} Payloads with the broken field and how it was broken.
+ */
+export function invalidPayload(schema: z.ZodObject, overrides: Record<string, unknown> = {}): fc.Arbitrary<InvalidPayload> {
+  const fields = describeFields(schema)
+
+  return fc.oneof(...fields.map((field) => {
+    const broken = fc.oneof(...invalidValues(field).map(([kind, value]) => value.map((brokenValue) => ({ kind, brokenValue }))))
+
+    return fc.tuple(validPayload(schema, overrides), broken).map(([payload, { kind, brokenValue }]) => {
+      const rest = Object.fromEntries(Object.entries(payload).filter(([name]) => name !== field.name))
+
+      return { payload: kind === 'missing' ? rest : { ...rest, [field.name]: brokenValue }, field: field.name, kind }
+    })
+  }))
+}
+
+function validValue(field: FieldSpec): fc.Arbitrary<unknown> {
+  if (field.format === 'uuid') {
+    return fc.uuid({ version: 4 })
+  }
+  if (field.type === 'number') {
+    // .NET serializes float.MaxValue as 3.4028235E+38, which is above the float32 range
+    // when read back as a double, so the limits themselves never validate against z.float32()
+    const minimum = field.exclusiveMinimum ?? field.minimum ?? -float32Max
+
+    return fc.float({
+      min: Math.fround(minimum),
+      max: Math.fround(field.maximum ?? float32Max),
+      minExcluded: field.exclusiveMinimum !== undefined || minimum <= -float32Max,
+      maxExcluded: field.maximum === undefined || field.maximum >= float32Max,
+      noNaN: true,
+      noDefaultInfinity: true,
+    })
+  }
+
+  // ASP.NET [Required] rejects whitespace-only strings as missing
+  return fc.string({ minLength: field.minimum ?? 0, maxLength: Math.min(field.maximum ?? 64, 64) })
+    .filter((value) => value === '' || value.trim() !== '')
+}
+
+function invalidValues(field: FieldSpec): [string, fc.Arbitrary<unknown>][] {
+  const values: [string, fc.Arbitrary<unknown>][] = []
+  if (!field.optional) {
+    values.push(['missing', fc.constant(undefined)], ['null', fc.constant(null)])
+    if (field.type === 'string') {
+      values.push(['empty', fc.constant('')], ['blank', fc.constantFrom(' ', '\t', ' \r\n ')])
+    }
+  }
+
+  const structured = fc.oneof(fc.boolean(), fc.constant([]), fc.constant({}))
+  if (field.type === 'number') {
+    values.push(['wrong type', fc.oneof(structured, fc.string().filter((value) => !value.trim() || !Number.isFinite(Number(value))))])
+    const minimum = field.exclusiveMinimum ?? field.minimum
+    if (minimum !== undefined && minimum > -float32Max) {
+      // -0 is serialized as 0, which is not below a minimum of 0
+      const belowMinimum = fc.float({
+        max: Math.fround(minimum),
+        maxExcluded: field.exclusiveMinimum === undefined,
+        noNaN: true,
+        noDefaultInfinity: true,
+      })
+      values.push(['below minimum', belowMinimum.filter((value) => !Object.is(value, -0))])
+    }
+    if (field.maximum !== undefined && field.maximum < float32Max) {
+      values.push(['above maximum', fc.float({ min: Math.fround(field.maximum), minExcluded: true, noNaN: true, noDefaultInfinity: true })])
+    }
+  } else {
+    values.push(['wrong type', fc.oneof(structured, fc.integer())])
+    if (field.format === 'uuid') {
+      values.push(['not a guid', fc.string({ minLength: 1 }).filter((value) => !guidPattern.test(value))])
+    } else if (field.maximum !== undefined) {
+      values.push(['too long', fc.string({ minLength: field.maximum + 1, maxLength: field.maximum + 16 })])
+    }
+  }
+
+  return values
+}
+
+/**
+ * Checks whether an `errors` key of a validation response refers to the given property,
+ * either by model name (`Qr`) or by JSON path (`$.qr`).
+ *
+ * @param {string} key - Key of the `errors` object.
+ * @param {string} field - Property name as sent in JSON.
+ * @returns {boolean} `true` when the key names the property.
+ */
+export function isErrorKeyForField(key: string, field: string): boolean {
+  return key.replace(/^\$\./, '').toLowerCase() === field.toLowerCase()
+}
+
+/**
+ * Asserts that every property sent to the API came back unchanged.
+ * Numbers are compared after rounding to float32, GUIDs case-insensitively.
+ *
+ * @param {Record<string, unknown>} sent - Payload that was posted.
+ * @param {object} received - Body returned by the API.
+ */
+export function checkRoundTrip(sent: Record<string, unknown>, received: object): void {
+  for (const [name, value] of Object.entries(sent)) {
+    const actual = (received as Record<string, unknown>)[name]
+    if (typeof value === 'number') {
+      expect(float32Equals(actual as number, value), `${name} changed after float32 rounding: sent ${value}, received ${actual}`).toBe(true)
+    } else if (typeof value === 'string' && guidPattern.test(value)) {
+      expect(String(actual).toLowerCase(), `${name} changed`).toBe(value.toLowerCase())
+    } else {
+      expect(actual, `${name} changed`).toEqual(value)
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { expect } from '@playwright/test'
+import { ApiResult } from '../api/base.api'
+import { Barrel, TagKind, tagKinds } from '../models/barrel.model'
+
+/**
+ * Response headers stored in golden files when present.
+ */
+export const goldenHeaders = ['content-type', 'allow', 'location', 'cache-control']
+
+/**
+ * Replaces a volatile value with a stable placeholder. Returns the value unchanged when it does not apply.
+ */
+export type Normalizer = (value: string, key: string) => string
+
+const guidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const traceIdPattern = /^00-[0-9a-f]{32}-[0-9a-f]{16}-0[01]$/
+const datePattern = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/
+const jsonPositionPattern = /LineNumber: \d+ \| BytePositionInLine: \d+/g
+
+/**
+ * ProblemDetails members whose wording comes from the framework version rather than the API.
+ */
+const problemWordingKeys = ['title', 'type', 'detail']
+
+/**
+ * Creates the default normalizers: trace ids become `<traceId>`, dates `<date>`, the ProblemDetails
+ * `title`, `type` and `detail` `<title>`, `<type>` and `<detail>`, the reader position in JSON conversion
+ * errors `<position>` and GUIDs `<guid-1>`, `<guid-2>`, … numbered in order of appearance. Pass the same normalizers to several
+ * snapshots of a test to keep the numbering, so a measurement still shows that its `barrelId`
+ * is the `id` of the barrel created before.
+ *
+ * @returns {Normalizer[]} Normalizers sharing one GUID numbering.
+ */
+export function defaultNormalizers(): Normalizer[] {
+  const guids = new Map<string, string>()
+
+  return [
+    (value) => traceIdPattern.test(value) ? '<traceId>' : value,
+    (value) => datePattern.test(value) ? '<date>' : value,
+    (value, key) => problemWordingKeys.includes(key) ? `<${key}>` : value,
+    (value) => value.replace(jsonPositionPattern, '<position>'),
+    (value) => {
+      if (!guidPattern.test(value)) {
+        return value
+      }
+      const key = value.toLowerCase()
+      if (!guids.has(key)) {
+        guids.set(key, `<guid-${guids.size + 1}>`)
+      }
+
+      return guids.get(key) as string
+    },
+  ]
+}
+
+/**
+ * Creates a normalizer that replaces the tags of a generated barrel with `<qr>`, `<rfid>` and `<nfc>`,
+ * so every test creates barrels with tags of its own and the golden file stays the same.
+ *
+ * @param {Pick<Barrel, TagKind>} barrel - Barrel whose tag values are replaced.
+ * @returns {Normalizer} Normalizer for the `qr`, `rfid` and `nfc` properties.
+ */
+export function tagNormalizer(barrel: Pick<Barrel, TagKind>): Normalizer {
+  return (value, key) => (tagKinds as string[]).includes(key) && value === barrel[key as TagKind] ? `<${key}>` : value
+}
+
+/**
+ * Applies normalizers to every string in a JSON value and sorts object keys,
+ * so the serialized form only changes when the response does.
+ *
+ * @param {unknown} value - Parsed JSON.
+ * @param {Normalizer[]} normalizers - Normalizers applied in order.
+ * @param {string} [key] - Property name of the value, passed to the normalizers.
+ * @returns {unknown} Normalized copy.
+ */
+export function normalize(value: unknown, normalizers: Normalizer[], key = ''): unknown {
+  if (typeof value === 'string') {
+    return normalizers.reduce((normalized, normalizer) => normalizer(normalized, key), value)
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => normalize(item, normalizers, key))
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map((name) =>
+      [name, normalize((value as Record<string, unknown>)[name], normalizers, name)]))
+  }
+
+  return value
+}
+
+/**
+ * Serializes status, selected headers and body of a response in the golden file format.
+ *
+ * @param {ApiResult<unknown>} result - Result of an API call.
+ * @param {Normalizer[]} [normalizers] - Normalizers; the defaults when omitted.
+ * @returns {string} Pretty-printed JSON ending with a newline.
+ */
+export function goldenResponse(result: ApiResult<unknown>, normalizers: Normalizer[] = defaultNormalizers()): string {
+  const headers = result.response.headers()
+  const snapshot = {
+    status: result.status,
+    headers: Object.fromEntries(goldenHeaders.filter((name) => name in headers).map((name) => [name, headers[name]])),
+    body: normalize(result.body, normalizers),
+  }
+
+  return `${JSON.stringify(snapshot, null, 2)}\n`
+}
+
+/**
+ * Compares a response with its golden file `tests/golden/<spec>/<name>.json`.
+ * Run with `--update-snapshots` to rewrite the golden files; a mismatch attaches
+ * the expected, actual and diff to the HTML report.
+ *
+ * @param {ApiResult<unknown>} result - Result of an API call.
+ * @param {string} name - Golden file name without extension, e.g. `post-barrel-201`.
+ * @param {Normalizer[]} [normalizers] - Normalizers; the defaults when omitted.
+ */
+export function expectGolden(result: ApiResult<unknown>, name: string, normalizers?: Normalizer[]): void {
+  expect(goldenResponse(result, normalizers)).toMatchSnapshot(`${name}.json`)
+}
@@ -0,0 +1,144 @@
+import { z } from 'zod/v4'
+import { barrelObject, tagKinds } from '../models/barrel.model'
+import { measurementObject } from '../models/measurement.model'
+
+/**
+ * Kinds of problems the referential integrity audit reports.
+ */
+export const integrityProblemKinds = [
+  'orphan-measurement', 'duplicate-id', 'invalid-barrel', 'invalid-measurement', 'duplicate-tag',
+] as const
+
+export type IntegrityProblemKind = typeof integrityProblemKinds[number]
+
+/**
+ * Kinds the API allows, reported as notices that do not fail the audit: several barrels may carry
+ * the same tag, see `tests/tag-policy.spec.ts`.
+ */
+export const integrityNoticeKinds: readonly IntegrityProblemKind[] = ['duplicate-tag']
+
+/**
+ * One integrity problem of the dataset.
+ */
+export interface IntegrityProblem {
+  kind: IntegrityProblemKind,
+  message: string,
+  /** Ids of the barrels or measurements involved. */
+  ids: string[],
+}
+
+/**
+ * Result of an audit of all barrels and measurements.
+ */
+export interface IntegrityReport {
+  barrels: number,
+  measurements: number,
+  counts: Record<IntegrityProblemKind, number>,
+  problems: IntegrityProblem[],
+  /** Findings of the `integrityNoticeKinds`, which do not count as problems. */
+  notices: IntegrityProblem[],
+}
+
+/**
+ * Checks the listings of barrels and measurements as a whole: every item must match its model,
+ * ids must be unique across both resources and every measurement must refer to a listed barrel.
+ * Barrels sharing a `qr`, `rfid` or `nfc` tag are listed as notices.
+ *
+ * @param {unknown[]} barrels - Body of `GET /barrels`.
+ * @param {unknown[]} measurements - Body of `GET /measurements`.
+ * @returns {IntegrityReport} Problems found, with counts per kind.
+ */
+export function auditIntegrity(barrels: unknown[], measurements: unknown[]): IntegrityReport {
+  const findings: IntegrityProblem[] = [
+    ...invalidItems('invalid-barrel', barrels, barrelObject.required({ id: true })),
+    ...invalidItems('invalid-measurement', measurements, measurementObject.required({ id: true })),
+    ...duplicateIds(barrels, measurements),
+    ...orphanMeasurements(barrels, measurements),
+    ...duplicateTags(barrels),
+  ]
+  const counts = Object.fromEntries(integrityProblemKinds.map((kind) =>
+    [kind, findings.filter((finding) => finding.kind === kind).length])) as Record<IntegrityProblemKind, number>
+  const problems = findings.filter(({ kind }) => !integrityNoticeKinds.includes(kind))
+  const notices = findings.filter(({ kind }) => integrityNoticeKinds.includes(kind))
+
+  return { barrels: barrels.length, measurements: measurements.length, counts, problems, notices }
+}
+
+/**
+ * Summarizes a report for the console, one line per problem and per notice.
+ *
+ * @param {IntegrityReport} report - Result of `auditIntegrity`.
+ * @returns {string} Multi-line summary.
+ */
+export function formatIntegritySummary({ barrels, measurements, counts, problems, notices }: IntegrityReport): string {
+  const header = `Audited ${barrels} barrel(s) and ${measurements} measurement(s): ` +
+    (problems.length === 0 ? 'no problems found' : `${problems.length} problem(s) found`) +
+    (notices.length === 0 ? '' : `, ${notices.length} notice(s)`)
+  const totals = integrityProblemKinds.map((kind) => `  ${kind.padEnd(20)} ${counts[kind]}${integrityNoticeKinds.includes(kind) ? ' (notice)' : ''}`)
+  const lines = [
+    ...problems.map(({ kind, message }) => `  [${kind}] ${message}`),
+    ...notices.map(({ kind, message }) => `  [${kind}] (notice) ${message}`),
+  ]
+
+  return [header, ...totals, ...(lines.length > 0 ? ['', ...lines] : [])].join('\n')
+}
+
+function invalidItems(kind: IntegrityProblemKind, items: unknown[], schema: z.ZodType): IntegrityProblem[] {
+  return items.flatMap((item, index) => {
+    const result = schema.safeParse(item)
+    if (result.success) {
+      return []
+    }
+    const id = idOf(item)
+    const issues = result.error.issues.map(({ path, message }) => `${path.join('.') || '(root)'}: ${message}`)
+
+    return [{ kind, message: `${id ?? `item ${index}`} is invalid: ${issues.join('; ')}`, ids: id ? [id] : [] }]
+  })
+}
+
+function duplicateIds(barrels: unknown[], measurements: unknown[]): IntegrityProblem[] {
+  const resources = new Map<string, string[]>()
+  for (const [resource, items] of [['barrel', barrels], ['measurement', measurements]] as const) {
+    for (const id of items.map(idOf).filter((id): id is string => id !== undefined)) {
+      resources.set(id.toLowerCase(), [...resources.get(id.toLowerCase()) ?? [], resource])
+    }
+  }
+
+  return [...resources].filter(([, found]) => found.length > 1).map(([id, found]) =>
+    ({ kind: 'duplicate-id', message: `${id} is used by ${found.length} items (${found.join(', ')})`, ids: [id] }))
+}
+
+function orphanMeasurements(barrels: unknown[], measurements: unknown[]): IntegrityProblem[] {
+  const barrelIds = new Set(barrels.map(idOf).filter((id) => id !== undefined).map((id) => id.toLowerCase()))
+
+  return measurements.flatMap((measurement) => {
+    const barrelId = (measurement as { barrelId?: unknown } | null)?.barrelId
+    if (typeof barrelId !== 'string' || barrelIds.has(barrelId.toLowerCase())) {
+      return []
+    }
+    const id = idOf(measurement)
+
+    return [{ kind: 'orphan-measurement', message: `${id ?? 'measurement'} refers to missing barrel ${barrelId}`, ids: id ? [id] : [] }]
+  })
+}
+
+function duplicateTags(barrels: unknown[]): IntegrityProblem[] {
+  return tagKinds.flatMap((field) => {
+    const owners = new Map<string, string[]>()
+    for (const barrel of barrels) {
+      const value = (barrel as Record<string, unknown> | null)?.[field]
+      if (typeof value === 'string') {
+        owners.set(value, [...owners.get(value) ?? [], idOf(barrel) ?? '(no id)'])
+      }
+    }
+
+    return [...owners].filter(([, ids]) => ids.length > 1).map(([value, ids]) =>
+      ({ kind: 'duplicate-tag', message: `${field} ${JSON.stringify(value)} is shared by ${ids.join(', ')}`, ids }))
+  })
+}
+
+function idOf(item: unknown): string | undefined {
+  const id = (item as { id?: unknown } | null)?.id
+
+  return typeof id === 'string' ? id : undefined
+}
@@ -0,0 +1,293 @@
+import { performance } from 'perf_hooks'
+import { ApiResult, BaseApi } from '../api/base.api'
+import { BarrelApi } from '../api/barrel.api'
+import { MeasurementApi } from '../api/measurement.api'
+import { buildBarrel } from './barrel.helper'
+import { buildMeasurement } from './measurement.helper'
+
+/**
+ * Operations the load runner picks from.
+ */
+export type LoadOperation = 'create' | 'get' | 'list' | 'delete'
+
+/**
+ * Limits a load run must stay within, checked per endpoint. Omitted limits are not checked.
+ */
+export interface LoadThresholds {
+  p95Ms?: number,
+  p99Ms?: number,
+  /** Highest accepted share of failed requests, from 0 to 1. */
+  errorRate?: number,
+}
+
+export interface LoadOptions {
+  /** Number of virtual users sending requests in parallel. */
+  concurrency: number,
+  /** Highest number of requests started per second across all users; 0 for no limit. */
+  ratePerSecond: number,
+  durationMs: number,
+  /** Relative weight of every operation, e.g. `{ create: 2, get: 1, list: 1, delete: 1 }`. */
+  mix: Record<LoadOperation, number>,
+  thresholds: LoadThresholds,
+}
+
+/**
+ * Latency percentiles and error rate of a single endpoint, e.g. `GET /barrels/{id}`.
+ */
+export interface EndpointStats {
+  endpoint: string,
+  requests: number,
+  errors: number,
+  errorRate: number,
+  latencyMs: { p50: number, p95: number, p99: number, max: number },
+}
+
+/**
+ * Result of a load run, written as the JSON summary.
+ */
+export interface LoadSummary {
+  options: LoadOptions,
+  startedAt: string,
+  durationMs: number,
+  requests: number,
+  requestsPerSecond: number,
+  endpoints: EndpointStats[],
+  /** One message per exceeded threshold; empty when the run passed. */
+  thresholdFailures: string[],
+}
+
+interface Sample {
+  endpoint: string,
+  latencyMs: number,
+  failed: boolean,
+}
+
+const expectedStatus: Record<LoadOperation, number> = { create: 201, get: 200, list: 200, delete: 204 }
+
+/**
+ * Load options read from `LOAD_CONCURRENCY`, `LOAD_RATE`, `LOAD_DURATION_MS`, `LOAD_MIX`
+ * (e.g. `create=2,get=1,list=1,delete=1`), `LOAD_P95_MS`, `LOAD_P99_MS` and `LOAD_MAX_ERROR_RATE`.
+ * The defaults are a short smoke-sized run.
+ *
+ * @returns {LoadOptions} Options for `LoadRunner`.
+ */
+export function loadOptionsFromEnv(): LoadOptions {
+  const env = process.env
+  const mix: Record<LoadOperation, number> = { create: 2, get: 2, list: 1, delete: 1 }
+  for (const entry of (env['LOAD_MIX'] ?? '').split(',').filter(Boolean)) {
+    const [operation, weight] = entry.split('=')
+    if (!(operation in mix)) {
+      throw new Error(`Unknown operation '${operation}' in LOAD_MIX, expected one of ${Object.keys(mix).join(', ')}`)
+    }
+    mix[operation as LoadOperation] = Number(weight)
+  }
+
+  return {
+    concurrency: Number(env['LOAD_CONCURRENCY'] ?? 4),
+    ratePerSecond: Number(env['LOAD_RATE'] ?? 50),
+    durationMs: Number(env['LOAD_DURATION_MS'] ?? 3000),
+    mix,
+    thresholds: {
+      p95Ms: Number(env['LOAD_P95_MS'] ?? 500),
+      p99Ms: Number(env['LOAD_P99_MS'] ?? 1000),
+      errorRate: Number(env['LOAD_MAX_ERROR_RATE'] ?? 0.01),
+    },
+  }
+}
+
+/**
+ * Sends a mix of barrel and measurement requests for a fixed time and collects
+ * latency and error statistics per endpoint.
+ *
+ * Measurements are posted for barrels created during the run; `get` and `delete`
+ * fall back to `create` while there is nothing to read or delete yet.
+ * Ids are never read and deleted at the same time, so a healthy API answers every request as expected.
+ */
+export class LoadRunner {
+  private readonly barrelIds: string[] = []
+  private readonly measurementIds: string[] = []
+  private readonly parents = new Set<string>()
+  private readonly inUse = new Set<string>()
+  private readonly samples: Sample[] = []
+  private nextStart = 0
+
+  constructor(
+    private readonly barrelApi: BarrelApi,
+    private readonly measurementApi: MeasurementApi,
+    readonly options: LoadOptions
+  ) {}
+
+  /**
+   * Runs the virtual users until the duration has passed and summarizes the samples.
+   *
+   * @returns {Promise<LoadSummary>} Statistics and exceeded thresholds.
+   */
+  async run(): Promise<LoadSummary> {
+    const startedAt = new Date()
+    const start = performance.now()
+    const end = start + this.options.durationMs
+    this.nextStart = start
+
+    await Promise.all(Array.from({ length: this.options.concurrency }, async () => {
+      while (await this.waitForSlot(end)) {
+        await this.step()
+      }
+    }))
+
+    const durationMs = performance.now() - start
+    const endpoints = summarize(this.samples)
+
+    return {
+      options: this.options,
+      startedAt: startedAt.toISOString(),
+      durationMs: Math.round(durationMs),
+      requests: this.samples.length,
+      requestsPerSecond: round(this.samples.length / (durationMs / 1000)),
+      endpoints,
+      thresholdFailures: checkThresholds(endpoints, this.options.thresholds),
+    }
+  }
+
+  private async waitForSlot(end: number): Promise<boolean> {
+    if (this.options.ratePerSecond > 0) {
+      const slot = Math.max(performance.now(), this.nextStart)
+      this.nextStart = slot + 1000 / this.options.ratePerSecond
+      await new Promise((resolve) => setTimeout(resolve, slot - performance.now()))
+    }
+
+    return performance.now() < end
+  }
+
+  private async step(): Promise<void> {
+    const operation = this.pickOperation()
+    const onBarrels = this.barrelIds.length === 0 || Math.random() < 0.5
+    const api: BaseApi<{ id?: string }> = onBarrels ? this.barrelApi : this.measurementApi
+    const ids = onBarrels ? this.barrelIds : this.measurementIds
+    // barrels with measurements are never deleted, so a cascade cannot remove ids still in the pool
+    const id = pick(ids.filter((candidate) => !this.inUse.has(candidate) && !(operation === 'delete' && this.parents.has(candidate))))
+
+    if (operation === 'list') {
+      await this.measure(operation, `GET ${api.endpoint}`, () => api.list())
+    } else if (operation === 'create' || id === undefined) {
+      const barrelId = onBarrels ? undefined : pick(this.barrelIds) as string
+      const payload = barrelId === undefined ? buildBarrel() : buildMeasurement(barrelId)
+      if (barrelId !== undefined) {
+        this.parents.add(barrelId)
+      }
+      const result = await this.measure('create', `POST ${api.endpoint}`, () => api.create(payload))
+      if (result?.status === 201 && result.body.id) {
+        ids.push(result.body.id)
+      }
+    } else {
+      this.inUse.add(id)
+      if (operation === 'get') {
+        await this.measure(operation, `GET ${api.endpoint}/{id}`, () => api.get(id))
+      } else {
+        ids.splice(ids.indexOf(id), 1)
+        await this.measure(operation, `DELETE ${api.endpoint}/{id}`, () => api.delete(id))
+      }
+      this.inUse.delete(id)
+    }
+  }
+
+  private async measure<R>(operation: LoadOperation, endpoint: string, call: () => Promise<ApiResult<R>>): Promise<ApiResult<R> | undefined> {
+    const start = performance.now()
+    try {
+      const result = await call()
+      this.samples.push({ endpoint, latencyMs: performance.now() - start, failed: result.status !== expectedStatus[operation] })
+
+      return result
+    } catch {
+      this.samples.push({ endpoint, latencyMs: performance.now() - start, failed: true })
+
+      return undefined
+    }
+  }
+
+  private pickOperation(): LoadOperation {
+    const entries = Object.entries(this.options.mix) as [LoadOperation, number][]
+    let roll = Math.random() * entries.reduce((total, [, weight]) => total + weight, 0)
+    for (const [operation, weight] of entries) {
+      roll -= weight
+      if (roll < 0) {
+        return operation
+      }
+    }
+
+    return 'create'
+  }
+
+}
+
+/**
+ * Formats a summary as one line per endpoint, e.g. `GET /barrels 120 req p50 2ms p95 5ms p99 9ms errors 0%`.
+ *
+ * @param {LoadSummary} summary - Result of `LoadRunner.run`.
+ * @returns {string} Human-readable table.
+ */
+export function formatLoadSummary(summary: LoadSummary): string {
+  const lines = summary.endpoints.map(({ endpoint, requests, errorRate, latencyMs }) =>
+    `${endpoint.padEnd(28)} ${String(requests).padStart(6)} req  p50 ${latencyMs.p50}ms  p95 ${latencyMs.p95}ms  ` +
+    `p99 ${latencyMs.p99}ms  errors ${round(errorRate * 100)}%`)
+
+  return [...lines, `${summary.requests} requests in ${summary.durationMs}ms (${summary.requestsPerSecond} req/s)`].join('\n')
+}
+
+function pick<T>(values: T[]): T | undefined {
+  return values[Math.floor(Math.random() * values.length)]
+}
+
+function summarize(samples: Sample[]): EndpointStats[] {
+  const byEndpoint = new Map<string, Sample[]>()
+  for (const sample of samples) {
+    byEndpoint.set(sample.endpoint, [...byEndpoint.get(sample.endpoint) ?? [], sample])
+  }
+
+  return [...byEndpoint.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([endpoint, endpointSamples]) => {
+    const latencies = endpointSamples.map(({ latencyMs }) => latencyMs).sort((a, b) => a - b)
+    const errors = endpointSamples.filter(({ failed }) => failed).length
+
+    return {
+      endpoint,
+      requests: endpointSamples.length,
+      errors,
+      errorRate: round(errors / endpointSamples.length, 4),
+      latencyMs: {
+        p50: percentile(latencies, 50),
+        p95: percentile(latencies, 95),
+        p99: percentile(latencies, 99),
+        max: round(latencies[latencies.length - 1]),
+      },
+    }
+  })
+}
+
+function checkThresholds(endpoints: EndpointStats[], thresholds: LoadThresholds): string[] {
+  const failures: string[] = []
+  for (const { endpoint, errorRate, latencyMs } of endpoints) {
+    if (thresholds.p95Ms !== undefined && latencyMs.p95 > thresholds.p95Ms) {
+      failures.push(`${endpoint}: p95 ${latencyMs.p95}ms exceeds ${thresholds.p95Ms}ms`)
+    }
+    if (thresholds.p99Ms !== undefined && latencyMs.p99 > thresholds.p99Ms) {
+      failures.push(`${endpoint}: p99 ${latencyMs.p99}ms exceeds ${thresholds.p99Ms}ms`)
+    }
+    if (thresholds.errorRate !== undefined && errorRate > thresholds.errorRate) {
+      failures.push(`${endpoint}: error rate ${round(errorRate * 100)}% exceeds ${round(thresholds.errorRate * 100)}%`)
+    }
+  }
+
+  return failures
+}
+
+/**
+ * Nearest-rank percentile of sorted values.
+ */
+function percentile(sorted: number[], rank: number): number {
+  return round(sorted[Math.max(0, Math.ceil(rank / 100 * sorted.length) - 1)])
+}
+
+function round(value: number, fractionDigits = 2): number {
+  const factor = 10 ** fractionDigits
+
+  return Math.round(value * factor) / factor
+}
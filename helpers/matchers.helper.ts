@@ -0,0 +1,176 @@
+import { expect as baseExpect, ExpectMatcherState, MatcherReturnType } from '@playwright/test'
+import { z } from 'zod/v4'
+import { ApiResult } from '../api/base.api'
+import { Barrel, barrelObject } from '../models/barrel.model'
+import { Measurement, measurementObject } from '../models/measurement.model'
+import { float32Equals } from '../models/numeric-rules.model'
+import { problemDetailsObject, validationProblemDetailsObject } from '../models/error-response.model'
+
+/**
+ * Lists the zod issues of a value as `$.path: message` lines; empty when the value is valid.
+ *
+ * @param {z.ZodType} schema - Schema to check against.
+ * @param {unknown} value - Value to check.
+ * @returns {string[]} One line per issue.
+ */
+export function schemaIssues(schema: z.ZodType, value: unknown): string[] {
+  const parsed = schema.safeParse(value)
+
+  return parsed.success ? [] : parsed.error.issues.map((issue) => `${['$', ...issue.path].join('.')}: ${issue.message}`)
+}
+
+/**
+ * Matchers for `ApiResult`s, available on the `expect` exported by the fixtures, e.g.
+ * `expect(result).toBeValidBarrel(barrel)` or `expect(result).toHaveValidationError('Qr', 'The Qr field is required.')`.
+ * A failure lists every mismatch, including the zod issue paths, followed by the status and the actual body.
+ */
+export const expect = baseExpect.extend({
+  /**
+   * Asserts a `application/json` response with a non-empty body.
+   */
+  toBeJsonResponse(this: ExpectMatcherState, result: ApiResult<unknown>): MatcherReturnType {
+    return report(this, 'toBeJsonResponse', result, jsonProblems(result))
+  },
+
+  /**
+   * Asserts a JSON response whose body is a valid barrel containing the expected fields.
+   */
+  toBeValidBarrel(this: ExpectMatcherState, result: ApiResult<unknown>, expected?: Partial<Barrel>): MatcherReturnType {
+    return report(this, 'toBeValidBarrel', result, modelProblems(barrelObject, result, expected), expected)
+  },
+
+  /**
+   * Asserts a JSON response whose body is a valid measurement containing the expected fields;
+   * numbers are compared after rounding to float32.
+   */
+  toBeValidMeasurement(this: ExpectMatcherState, result: ApiResult<unknown>, expected?: Partial<Measurement>): MatcherReturnType {
+    return report(this, 'toBeValidMeasurement', result, modelProblems(measurementObject, result, expected), expected)
+  },
+
+  /**
+   * Asserts the given status with a well-formed `application/problem+json` body.
+   */
+  toBeProblemDetails(this: ExpectMatcherState, result: ApiResult<unknown>, status: number): MatcherReturnType {
+    return report(this, 'toBeProblemDetails', result, problemDetailsProblems(result, status), status)
+  },
+
+  /**
+   * Asserts a 400 validation problem whose `errors` contain exactly the given keys, each listing
+   * the expected message. Any additional key in `errors` fails the assertion.
+   */
+  toHaveValidationErrors(this: ExpectMatcherState, result: ApiResult<unknown>, expected: Record<string, unknown>): MatcherReturnType {
+    return report(this, 'toHaveValidationErrors', result, validationProblems(result, expected), expected)
+  },
+
+  /**
+   * Asserts a 400 validation problem that reports a single field, either a model name (`Qr`)
+   * or a JSON path (`$.qr`), with the given message.
+   */
+  toHaveValidationError(this: ExpectMatcherState, result: ApiResult<unknown>, field: string, message: unknown): MatcherReturnType {
+    return report(this, 'toHaveValidationError', result, validationProblems(result, { [field]: message }), { [field]: message })
+  },
+})
+
+function jsonProblems({ response, body }: ApiResult<unknown>): string[] {
+  const contentType = response.headers()['content-type'] ?? ''
+
+  return [
+    ...(contentType.includes('application/json') ? [] : [`content-type is ${JSON.stringify(contentType)}, expected application/json`]),
+    ...(body === undefined || body === null || body === '' ? ['body is empty'] : []),
+  ]
+}
+
+function modelProblems(schema: z.ZodType, result: ApiResult<unknown>, expected: object = {}): string[] {
+  const body = result.body as Record<string, unknown>
+  const mismatches = Object.entries(expected)
+    .filter(([key, value]) => !matches(body?.[key], value))
+    .map(([key, value]) => `$.${key} is ${JSON.stringify(body?.[key])}, expected ${JSON.stringify(value)}`)
+
+  return [...jsonProblems(result), ...schemaIssues(schema, body), ...mismatches]
+}
+
+function problemDetailsProblems(
+  { status, response, error }: ApiResult<unknown>,
+  expectedStatus: number,
+  schema: z.ZodType = problemDetailsObject
+): string[] {
+  const contentType = response.headers()['content-type'] ?? ''
+
+  return [
+    ...(status === expectedStatus ? [] : [`status is ${status}, expected ${expectedStatus}`]),
+    ...(contentType.includes('application/problem+json') ? [] : [`content-type is ${JSON.stringify(contentType)}, expected application/problem+json`]),
+    ...schemaIssues(schema, error),
+  ]
+}
+
+function validationProblems(result: ApiResult<unknown>, expected: Record<string, unknown>): string[] {
+  const problems = problemDetailsProblems(result, 400, validationProblemDetailsObject)
+  const errors = result.error?.errors ?? {}
+  const keys = Object.keys(errors).sort()
+  const expectedKeys = Object.keys(expected).sort()
+  if (keys.join('\n') !== expectedKeys.join('\n')) {
+    problems.push(`errors keys are ${JSON.stringify(keys)}, expected ${JSON.stringify(expectedKeys)}`)
+  }
+  for (const [key, message] of Object.entries(expected)) {
+    if (!(errors[key] ?? []).some((actual) => matches(actual, message))) {
+      problems.push(`errors.${key} is ${JSON.stringify(errors[key])}, expected to contain ${describeExpected(message)}`)
+    }
+  }
+
+  return problems
+}
+
+/**
+ * Compares a received value with an exact value or an asymmetric matcher.
+ * Numbers of the API are float32, so they are equal when they round to the same float32.
+ */
+function matches(actual: unknown, expected: unknown): boolean {
+  if (isAsymmetricMatcher(expected)) {
+    return expected.asymmetricMatch(actual)
+  }
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    return float32Equals(actual, expected)
+  }
+
+  return JSON.stringify(actual) === JSON.stringify(expected)
+}
+
+function isAsymmetricMatcher(value: unknown): value is { asymmetricMatch: (actual: unknown) => boolean } {
+  return typeof (value as { asymmetricMatch?: unknown } | null)?.asymmetricMatch === 'function'
+}
+
+/**
+ * Prints an expected value; asymmetric matchers as their name and sample, e.g. `StringContaining "abc"`.
+ */
+function describeExpected(value: unknown): string {
+  if (!isAsymmetricMatcher(value)) {
+    return JSON.stringify(value)
+  }
+  const { sample } = value as { sample?: unknown }
+
+  return sample === undefined ? String(value) : `${String(value)} ${JSON.stringify(sample)}`
+}
+
+/**
+ * Builds the matcher result: the mismatches when the assertion fails, the actual response either way.
+ */
+function report(
+  state: ExpectMatcherState,
+  name: string,
+  { status, response, body }: ApiResult<unknown>,
+  problems: string[],
+  expected?: unknown
+): MatcherReturnType {
+  const pass = problems.length === 0
+  const message = (): string => [
+    state.utils.matcherHint(name, 'result', expected === undefined ? '' : describeExpected(expected), { isNot: state.isNot }),
+    '',
+    pass ? 'Expected the response not to match, but it did.' : problems.map((problem) => `  ${problem}`).join('\n'),
+    '',
+    `Status: ${status}`,
+    `Content-Type: ${response.headers()['content-type'] ?? ''}`,
+    `Body: ${JSON.stringify(body, null, 2)}`,
+  ].join('\n')
+
+  return { pass, message, name, expected, actual: body }
+}
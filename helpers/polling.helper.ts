@@ -0,0 +1,216 @@
+import { expect } from '@playwright/test'
+import { ApiResult } from '../api/base.api'
+import { BarrelApi } from '../api/barrel.api'
+import { MeasurementApi } from '../api/measurement.api'
+import { Barrel, TagKind } from '../models/barrel.model'
+import { Measurement } from '../models/measurement.model'
+
+/**
+ * How long and how often a read is repeated until the API shows the expected state.
+ */
+export interface PollOptions {
+  /** Total time to wait, in ms. */
+  timeout?: number,
+  /** Pauses between reads, in ms; the last one is repeated (backoff). */
+  intervals?: number[],
+}
+
+/**
+ * Defaults from `POLL_TIMEOUT_MS` (default `10000`) and `POLL_INTERVALS_MS` (default `100,250,500,1000`).
+ */
+export const defaultPollOptions: Required<PollOptions> = {
+  timeout: Number(process.env['POLL_TIMEOUT_MS'] ?? 10_000),
+  intervals: (process.env['POLL_INTERVALS_MS'] ?? '100,250,500,1000').split(',').map(Number),
+}
+
+/**
+ * Repeats a read until its result is accepted, using `expect.poll`. When the time is up,
+ * the failure lists every state observed while waiting, so a slow write can be told
+ * apart from a wrong one.
+ *
+ * @param {string} description - What is awaited, e.g. `barrel 8c1e… to exist`.
+ * @param {() => Promise<ApiResult<T>>} read - Request to repeat.
+ * @param {(result: ApiResult<T>) => boolean} accept - Whether the result shows the awaited state.
+ * @param {PollOptions} [options] - Timeout and backoff.
+ * @param {(result: ApiResult<T>) => string} [describeState] - One-line description of a result for the diagnostics.
+ * @returns {Promise<ApiResult<T>>} The accepted result.
+ */
+export async function pollUntil<T>(
+  description: string,
+  read: () => Promise<ApiResult<T>>,
+  accept: (result: ApiResult<T>) => boolean,
+  options: PollOptions = {},
+  describeState: (result: ApiResult<T>) => string = ({ status, body }) => `${status} ${JSON.stringify(body) ?? ''}`
+): Promise<ApiResult<T>> {
+  const { timeout, intervals } = { ...defaultPollOptions, ...options }
+  const started = Date.now()
+  const states: ObservedState[] = []
+  let accepted: ApiResult<T> | undefined
+
+  try {
+    await expect.poll(async () => {
+      const result = await read()
+      states.push({ after: Date.now() - started, state: describeState(result).slice(0, 300).trimEnd() })
+      if (accept(result)) {
+        accepted = result
+      }
+
+      return accepted !== undefined
+    }, { timeout, intervals, message: `Waited ${timeout}ms for ${description}` }).toBe(true)
+  } catch (error) {
+    if (error instanceof Error) {
+      error.message = `${error.message}\n\nObserved states:\n${formatStates(states)}`
+    }
+    throw error
+  }
+
+  return accepted as ApiResult<T>
+}
+
+/**
+ * Waits until a barrel can be read.
+ *
+ * @param {BarrelApi} barrelApi - Barrel client.
+ * @param {string} id - Barrel id.
+ * @param {PollOptions} [options] - Timeout and backoff.
+ * @returns {Promise<ApiResult<Barrel>>} The `200` result.
+ */
+export function waitForBarrel(barrelApi: BarrelApi, id: string, options?: PollOptions): Promise<ApiResult<Barrel>> {
+  return pollUntil(`barrel ${id} to exist`, () => barrelApi.get(id), ({ status }) => status === 200, options)
+}
+
+/**
+ * Waits until reading a barrel answers `404`.
+ *
+ * @param {BarrelApi} barrelApi - Barrel client.
+ * @param {string} id - Barrel id.
+ * @param {PollOptions} [options] - Timeout and backoff.
+ * @returns {Promise<ApiResult<Barrel>>} The `404` result.
+ */
+export function waitForBarrelGone(barrelApi: BarrelApi, id: string, options?: PollOptions): Promise<ApiResult<Barrel>> {
+  return pollUntil(`barrel ${id} to be gone`, () => barrelApi.get(id), ({ status }) => status === 404, options)
+}
+
+/**
+ * Waits until the barrel listing satisfies a predicate.
+ *
+ * @param {BarrelApi} barrelApi - Barrel client.
+ * @param {(barrels: Barrel[]) => boolean} predicate - Awaited state of the listing.
+ * @param {PollOptions} [options] - Timeout and backoff.
+ * @returns {Promise<ApiResult<Barrel[]>>} The accepted listing.
+ */
+export function waitForBarrels(
+  barrelApi: BarrelApi,
+  predicate: (barrels: Barrel[]) => boolean,
+  options?: PollOptions
+): Promise<ApiResult<Barrel[]>> {
+  return pollUntil(
+    'the barrel listing',
+    () => barrelApi.list(),
+    ({ status, body }) => status === 200 && predicate(body),
+    options,
+    ({ status, body }) => `${status} ${Array.isArray(body) ? `${body.length} barrel(s)` : JSON.stringify(body)}`
+  )
+}
+
+/**
+ * Waits until the barrels carrying a tag value satisfy a predicate.
+ *
+ * @param {BarrelApi} barrelApi - Barrel client.
+ * @param {TagKind} kind - Tag field.
+ * @param {string} value - Tag value.
+ * @param {(barrels: Barrel[]) => boolean} predicate - Awaited state of the matching barrels.
+ * @param {PollOptions} [options] - Timeout and backoff.
+ * @returns {Promise<Barrel[]>} The matching barrels in the accepted listing.
+ */
+export async function waitForBarrelsByTag(
+  barrelApi: BarrelApi,
+  kind: TagKind,
+  value: string,
+  predicate: (barrels: Barrel[]) => boolean,
+  options?: PollOptions
+): Promise<Barrel[]> {
+  const { body } = await pollUntil(
+    `the barrels with ${kind} ${JSON.stringify(value)}`,
+    () => barrelApi.findBarrelsByTag(kind, value),
+    ({ status, body: barrels }) => status === 200 && predicate(barrels),
+    options
+  )
+
+  return body
+}
+
+/**
+ * Waits until a measurement can be read.
+ *
+ * @param {MeasurementApi} measurementApi - Measurement client.
+ * @param {string} id - Measurement id.
+ * @param {PollOptions} [options] - Timeout and backoff.
+ * @returns {Promise<ApiResult<Measurement>>} The `200` result.
+ */
+export function waitForMeasurement(measurementApi: MeasurementApi, id: string, options?: PollOptions): Promise<ApiResult<Measurement>> {
+  return pollUntil(`measurement ${id} to exist`, () => measurementApi.get(id), ({ status }) => status === 200, options)
+}
+
+/**
+ * Waits until reading a measurement answers `404`, e.g. after its barrel was deleted.
+ *
+ * @param {MeasurementApi} measurementApi - Measurement client.
+ * @param {string} id - Measurement id.
+ * @param {PollOptions} [options] - Timeout and backoff.
+ * @returns {Promise<ApiResult<Measurement>>} The `404` result.
+ */
+export function waitForMeasurementGone(measurementApi: MeasurementApi, id: string, options?: PollOptions): Promise<ApiResult<Measurement>> {
+  return pollUntil(`measurement ${id} to be gone`, () => measurementApi.get(id), ({ status }) => status === 404, options)
+}
+
+/**
+ * Waits until the listed measurements of a barrel satisfy a predicate, e.g. contain a new reading
+ * or are empty after a cascade delete.
+ *
+ * @param {MeasurementApi} measurementApi - Measurement client.
+ * @param {string} barrelId - Barrel whose measurements are checked.
+ * @param {(measurements: Measurement[]) => boolean} predicate - Awaited state of the measurements.
+ * @param {PollOptions} [options] - Timeout and backoff.
+ * @returns {Promise<Measurement[]>} The measurements of the barrel in the accepted listing.
+ */
+export async function waitForMeasurementsOfBarrel(
+  measurementApi: MeasurementApi,
+  barrelId: string,
+  predicate: (measurements: Measurement[]) => boolean,
+  options?: PollOptions
+): Promise<Measurement[]> {
+  const ofBarrel = (measurements: Measurement[]): Measurement[] => measurements.filter((measurement) => measurement.barrelId === barrelId)
+  const { body } = await pollUntil(
+    `the measurements of barrel ${barrelId}`,
+    () => measurementApi.list(),
+    ({ status, body: measurements }) => status === 200 && predicate(ofBarrel(measurements)),
+    options,
+    ({ status, body: measurements }) => `${status} ${JSON.stringify(Array.isArray(measurements) ? ofBarrel(measurements) : measurements)}`
+  )
+
+  return ofBarrel(body)
+}
+
+interface ObservedState {
+  /** Time since the first read, in ms. */
+  after: number,
+  state: string,
+}
+
+/**
+ * Lists observed states, folding consecutive repeats into one line with a count.
+ */
+function formatStates(states: ObservedState[]): string {
+  const folded: (ObservedState & { count: number })[] = []
+  for (const observed of states) {
+    const last = folded[folded.length - 1]
+    if (last?.state === observed.state) {
+      last.count++
+    } else {
+      folded.push({ ...observed, count: 1 })
+    }
+  }
+
+  return folded.map(({ after, state, count }) => `  +${after}ms ${state}${count > 1 ? ` (${count} times)` : ''}`).join('\n')
+}
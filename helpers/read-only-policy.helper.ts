@@ -0,0 +1,49 @@
+import { test } from '@playwright/test'
+import { EnvironmentProfile } from '../config/environments'
+import { ApiRequest, RequestHook } from './request-hooks.helper'
+
+/**
+ * Methods that never change data and are allowed in read-only environments.
+ */
+export const safeMethods = ['GET', 'HEAD', 'OPTIONS']
+
+/**
+ * Reason shown for tests skipped because the environment is read-only.
+ *
+ * @param {EnvironmentProfile} environment - Current environment.
+ * @param {string} blocked - What is not allowed, e.g. `POST /barrels`.
+ * @returns {string} Skip reason.
+ */
+export function readOnlySkipReason(environment: EnvironmentProfile, blocked: string): string {
+  return `'${environment.name}' is a read-only environment: ${blocked} is not allowed`
+}
+
+/**
+ * Creates a request hook that blocks mutating requests when the environment is read-only.
+ * A blocked request skips the running test (or, from `beforeAll`, its whole group) before
+ * anything is sent; outside of a test it throws.
+ *
+ * @param {EnvironmentProfile} environment - Current environment.
+ * @returns {RequestHook} Hook for `withRequestHooks`.
+ */
+export function readOnlyPolicyHook(environment: EnvironmentProfile): RequestHook {
+  return {
+    beforeRequest({ method, path }: ApiRequest) {
+      if (!environment.readOnly || safeMethods.includes(method)) {
+        return
+      }
+      const reason = readOnlySkipReason(environment, `${method} ${path}`)
+      let testInfo
+      try {
+        testInfo = test.info()
+      } catch {
+        throw new Error(reason)
+      }
+      if (testInfo.expectedStatus === 'skipped') {
+        // parallel requests of an already skipped test only need to be stopped
+        throw new Error(reason)
+      }
+      testInfo.skip(true, reason)
+    },
+  }
+}
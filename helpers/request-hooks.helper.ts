@@ -0,0 +1,76 @@
+import { APIRequestContext, APIResponse } from '@playwright/test'
+
+/**
+ * A request about to be sent, as seen by a `RequestHook`.
+ */
+export interface ApiRequest {
+  method: string,
+  /** Path of the request URL without query, e.g. `/barrels/123`. */
+  path: string,
+  data?: unknown,
+  /** Headers passed with the request, without the context's `extraHTTPHeaders`. */
+  headers?: Record<string, string>,
+}
+
+/**
+ * A completed request/response pair seen by a `RequestHook`.
+ */
+export interface ApiExchange extends ApiRequest {
+  response: APIResponse,
+}
+
+/**
+ * Observer plugged into an `APIRequestContext` by `withRequestHooks`.
+ * `beforeRequest` may throw to stop the request from being sent,
+ * `requestHeaders` returns headers to add to it.
+ */
+export interface RequestHook {
+  beforeRequest?(request: ApiRequest): void | Promise<void>,
+  requestHeaders?(request: ApiRequest): Record<string, string>,
+  afterResponse?(exchange: ApiExchange): void | Promise<void>,
+}
+
+type RequestOptions = { method?: string, data?: unknown, headers?: Record<string, string> } | undefined
+
+const requestMethods = ['fetch', 'get', 'post', 'put', 'patch', 'delete', 'head'] as const
+
+/**
+ * Wraps an `APIRequestContext` so every request made through it is passed to the given hooks,
+ * before it is sent and after its response arrives.
+ * All other members of the context are forwarded unchanged.
+ *
+ * @param {APIRequestContext} request - Context to wrap.
+ * @param {RequestHook[]} hooks - Hooks notified in order for each request.
+ * @returns {APIRequestContext} Instrumented context.
+ */
+export function withRequestHooks(request: APIRequestContext, hooks: RequestHook[]): APIRequestContext {
+  return new Proxy(request, {
+    get(target, property, receiver) {
+      const member = Reflect.get(target, property, receiver)
+      if (!(requestMethods as readonly (string | symbol)[]).includes(property)) {
+        return typeof member === 'function' ? member.bind(target) : member
+      }
+
+      return async (url: string, options: RequestOptions) => {
+        const method = property === 'fetch' ? (options?.method ?? 'GET') : property
+        const request: ApiRequest = {
+          method: method.toString().toUpperCase(),
+          path: new URL(url, 'http://localhost').pathname,
+          data: options?.data,
+          headers: options?.headers,
+        }
+        for (const hook of hooks) {
+          await hook.beforeRequest?.(request)
+        }
+        const headers = hooks.reduce((merged, hook) => ({ ...merged, ...hook.requestHeaders?.(request) }), options?.headers)
+        const response: APIResponse = await member.call(target, url, headers ? { ...options, headers } : options)
+        const exchange: ApiExchange = { ...request, response }
+        for (const hook of hooks) {
+          await hook.afterResponse?.(exchange)
+        }
+
+        return response
+      }
+    },
+  })
+}
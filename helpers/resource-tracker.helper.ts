@@ -0,0 +1,101 @@
+import { APIRequestContext, TestInfo } from '@playwright/test'
+
+/**
+ * A resource created through the API that has to be removed after the test.
+ */
+export interface TrackedResource {
+  endpoint: string,
+  id: string,
+}
+
+/**
+ * Type of the test annotation listing the resources a test left behind.
+ */
+export const leftoverResourcesAnnotation = 'leftover-resources'
+
+/**
+ * A tracked resource that could not be deleted during cleanup.
+ */
+export interface LeftoverResource extends TrackedResource {
+  reason: string,
+}
+
+/**
+ * Records every barrel and measurement created during a test (or a worker)
+ * and deletes them again in reverse creation order, so measurements are removed
+ * before the barrels they belong to.
+ */
+export class ResourceTracker {
+  private readonly resources: TrackedResource[] = []
+
+  /**
+   * Registers a created resource for cleanup.
+   *
+   * @param {string} endpoint - Collection endpoint of the resource, e.g. `/barrels`.
+   * @param {string} id - Identifier returned by the API.
+   */
+  track(endpoint: string, id: string): void {
+    this.resources.push({ endpoint, id })
+  }
+
+  /**
+   * Removes a resource from cleanup, e.g. because the test already deleted it.
+   *
+   * @param {string} endpoint - Collection endpoint of the resource.
+   * @param {string} id - Identifier of the resource.
+   */
+  forget(endpoint: string, id: string): void {
+    const index = this.resources.findIndex((resource) => resource.endpoint === endpoint && resource.id === id)
+    if (index !== -1) {
+      this.resources.splice(index, 1)
+    }
+  }
+
+  /**
+   * Deletes all tracked resources in reverse creation order.
+   * A 404 counts as deleted — e.g. measurements removed by a barrel cascade.
+   *
+   * @param {APIRequestContext} request - Context used to send the DELETE requests.
+   * @returns {Promise<LeftoverResource[]>} Resources that could not be deleted.
+   */
+  async cleanup(request: APIRequestContext): Promise<LeftoverResource[]> {
+    const leftovers: LeftoverResource[] = []
+    for (const resource of this.resources.splice(0).reverse()) {
+      try {
+        const response = await request.delete(`${resource.endpoint}/${encodeURIComponent(resource.id)}`)
+        if (response.status() !== 204 && response.status() !== 404) {
+          leftovers.push({ ...resource, reason: `DELETE returned ${response.status()}` })
+        }
+      } catch (error) {
+        leftovers.push({ ...resource, reason: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    return leftovers
+  }
+}
+
+/**
+ * Formats leftover resources as a single human-readable line per resource.
+ *
+ * @param {LeftoverResource[]} leftovers - Resources returned by `ResourceTracker.cleanup`.
+ * @returns {string} Report listing every leftover resource and why it remained.
+ */
+export function formatLeftovers(leftovers: LeftoverResource[]): string {
+  return leftovers.map(({ endpoint, id, reason }) => `${endpoint}/${id}: ${reason}`).join('\n')
+}
+
+/**
+ * Reports leftover resources as a warning and, for a test, as a `leftover-resources` annotation.
+ *
+ * @param {LeftoverResource[]} leftovers - Resources returned by `ResourceTracker.cleanup`.
+ * @param {TestInfo} [testInfo] - Test that created them; omitted for worker-scoped resources.
+ */
+export function reportLeftovers(leftovers: LeftoverResource[], testInfo?: TestInfo): void {
+  if (leftovers.length === 0) {
+    return
+  }
+  const report = formatLeftovers(leftovers)
+  console.warn(`Could not delete ${leftovers.length} test resource(s):\n${report}`)
+  testInfo?.annotations.push({ type: leftoverResourcesAnnotation, description: report })
+}
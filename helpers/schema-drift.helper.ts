@@ -0,0 +1,426 @@
+import { existsSync, readFileSync } from 'fs'
+import path from 'path'
+import { z } from 'zod/v4'
+import { barrelObject } from '../models/barrel.model'
+import { measurementObject } from '../models/measurement.model'
+import { escapeHtml } from './api-coverage.helper'
+import { ApiExchange, RequestHook } from './request-hooks.helper'
+
+/**
+ * JSON types of a value as recorded by the drift detector; `integer` in a schema counts as `number`.
+ */
+export type JsonType = 'string' | 'number' | 'boolean' | 'null' | 'object' | 'array'
+
+/**
+ * JSON types per field of each model, e.g. `{ Barrel: { qr: ['string'] } }`. Nested fields are
+ * written as paths such as `meta.source` or `tags[]`. This is also the format of the baseline file.
+ */
+export type SchemaShape = Record<string, Record<string, JsonType[]>>
+
+/**
+ * Fields seen in the responses of one model, with the number of objects they were seen in.
+ */
+export interface ObservedModel {
+  objects: number,
+  fields: Record<string, { count: number, types: JsonType[] }>,
+}
+
+/**
+ * Response shapes recorded during a run, per model.
+ */
+export type ObservedShapes = Record<string, ObservedModel>
+
+/**
+ * A field whose observed types differ from the zod model or from the baseline.
+ */
+export interface SchemaDrift {
+  /** What the observed shape was compared with. */
+  against: 'model' | 'baseline',
+  model: string,
+  field: string,
+  change: 'added' | 'removed' | 'retyped',
+  /** Types of the model or baseline; empty for added fields. */
+  expected: JsonType[],
+  /** Types seen in the responses; empty for removed fields. */
+  observed: JsonType[],
+}
+
+/**
+ * How drift affects a run: `report` only reports it, `strict` also fails the run, `update` saves
+ * the observed shapes as the new baseline, `off` does not record responses.
+ */
+export type SchemaDriftMode = 'off' | 'report' | 'strict' | 'update'
+
+export const schemaDriftMode = (process.env['SCHEMA_DRIFT'] ?? 'report') as SchemaDriftMode
+
+/**
+ * Models whose responses are recorded, with the resource whose `2xx` JSON responses hold them.
+ */
+export const driftModels: Record<string, { resource: string, schema: z.ZodType }> = {
+  Barrel: { resource: '/barrels', schema: barrelObject },
+  Measurement: { resource: '/measurements', schema: measurementObject },
+}
+
+/**
+ * Name of the test attachment holding the `ObservedShapes` of a test; read by the schema drift reporter.
+ */
+export const responseShapesAttachment = 'response-shapes'
+
+/**
+ * Default location of the baseline, overridable with `SCHEMA_BASELINE`.
+ */
+export const schemaBaselinePath = path.resolve(__dirname, '..', process.env['SCHEMA_BASELINE'] ?? 'openapi/schema-baseline.json')
+
+/**
+ * Collects the keys and value types of the response bodies of a worker until they are attached to a test.
+ */
+export class ResponseShapeCollector {
+  private shapes: ObservedShapes = {}
+  private readonly taken: ObservedShapes = {}
+
+  /**
+   * Records every field of a response body, or of each element when the body is an array.
+   *
+   * @param {string} model - Name of the model, e.g. `Barrel`.
+   * @param {unknown} body - Parsed response body.
+   */
+  record(model: string, body: unknown): void {
+    for (const item of Array.isArray(body) ? body : [body]) {
+      if (jsonType(item) !== 'object') {
+        continue
+      }
+      const observed = this.shapes[model] ??= { objects: 0, fields: {} }
+      observed.objects++
+      const fields = new Map<string, Set<JsonType>>()
+      collectFields(item as Record<string, unknown>, '', fields)
+      for (const [field, types] of fields) {
+        observed.fields[field] = mergeField(observed.fields[field], { count: 1, types: [...types] })
+      }
+    }
+  }
+
+  /**
+   * Returns the recorded shapes and starts over.
+   *
+   * @returns {ObservedShapes} Shapes recorded since the last call.
+   */
+  take(): ObservedShapes {
+    const shapes = this.shapes
+    mergeShapes(this.taken, shapes)
+    this.shapes = {}
+
+    return shapes
+  }
+
+  /**
+   * Returns every shape recorded by the worker, taken or not.
+   *
+   * @returns {ObservedShapes} Shapes recorded since the collector was created.
+   */
+  all(): ObservedShapes {
+    const shapes: ObservedShapes = {}
+    mergeShapes(shapes, this.taken)
+    mergeShapes(shapes, this.shapes)
+
+    return shapes
+  }
+}
+
+/**
+ * Creates a request hook that records the `2xx` JSON responses of the `driftModels` resources.
+ *
+ * @param {ResponseShapeCollector} collector - Collector receiving the bodies.
+ * @returns {RequestHook} Hook for `withRequestHooks`.
+ */
+export function schemaDriftHook(collector: ResponseShapeCollector): RequestHook {
+  return {
+    async afterResponse({ path: requestPath, response }: ApiExchange) {
+      const model = Object.keys(driftModels).find((name) => {
+        const { resource } = driftModels[name]
+
+        return requestPath === resource || requestPath.startsWith(`${resource}/`)
+      })
+      const contentType = response.headers()['content-type'] ?? ''
+      if (!model || !response.ok() || !contentType.includes('application/json')) {
+        return
+      }
+      const text = await response.text()
+      try {
+        collector.record(model, JSON.parse(text))
+      } catch {
+        // Not JSON despite the content type; the contract validation reports it
+      }
+    },
+  }
+}
+
+/**
+ * Adds the shapes recorded by one test to the shapes of the run.
+ *
+ * @param {ObservedShapes} run - Shapes of the run, updated in place.
+ * @param {ObservedShapes} shapes - Shapes of a test.
+ */
+export function mergeShapes(run: ObservedShapes, shapes: ObservedShapes): void {
+  for (const [model, { objects, fields }] of Object.entries(shapes)) {
+    const observed = run[model] ??= { objects: 0, fields: {} }
+    observed.objects += objects
+    for (const [field, seen] of Object.entries(fields)) {
+      observed.fields[field] = mergeField(observed.fields[field], seen)
+    }
+  }
+}
+
+/**
+ * Derives the declared fields and JSON types of the `driftModels` from their zod schemas.
+ *
+ * @returns {{ shape: SchemaShape, required: Record<string, string[]> }} Types per field and the required fields per model.
+ */
+export function declaredShapes(): { shape: SchemaShape, required: Record<string, string[]> } {
+  const shape: SchemaShape = {}
+  const required: Record<string, string[]> = {}
+  for (const [model, { schema }] of Object.entries(driftModels)) {
+    const fields = new Map<string, Set<JsonType>>()
+    const requiredFields: string[] = []
+    schemaFields(z.toJSONSchema(schema) as JsonSchemaNode, '', fields, requiredFields)
+    shape[model] = Object.fromEntries([...fields].map(([field, types]) => [field, [...types].sort()]))
+    required[model] = requiredFields
+  }
+
+  return { shape, required }
+}
+
+/**
+ * Compares the observed shapes with an expected shape. Only models seen in the run are compared, so a
+ * partial run does not report the fields of the others as removed. A field is `added` when the expected
+ * shape lacks it (nested fields of an added field are not listed separately), `removed` when it was never
+ * seen, and `retyped` when a value had a type the expected shape does not allow.
+ *
+ * @param {'model' | 'baseline'} against - Label of the expected shape.
+ * @param {SchemaShape} expected - Declared or baseline shape.
+ * @param {ObservedShapes} observed - Shapes of the run.
+ * @param {Record<string, string[]>} [required] - Fields that must be seen; every expected field when omitted.
+ * @returns {SchemaDrift[]} Differences ordered by model and field.
+ */
+export function compareShapes(
+  against: 'model' | 'baseline',
+  expected: SchemaShape,
+  observed: ObservedShapes,
+  required?: Record<string, string[]>
+): SchemaDrift[] {
+  const drift: SchemaDrift[] = []
+  for (const model of Object.keys(observed).sort()) {
+    const expectedFields = expected[model] ?? {}
+    const observedFields = observed[model].fields
+    const added = new Set<string>()
+    for (const field of Object.keys(observedFields).sort()) {
+      const types = observedFields[field].types
+      const expectedTypes = expectedFields[field]
+      if (!expectedTypes) {
+        if (!added.has(parentField(field))) {
+          drift.push({ against, model, field, change: 'added', expected: [], observed: types })
+        }
+        added.add(field)
+      } else if (types.some((type) => !expectedTypes.includes(type))) {
+        drift.push({ against, model, field, change: 'retyped', expected: expectedTypes, observed: types })
+      }
+    }
+    for (const field of Object.keys(expectedFields).sort()) {
+      const mustBeSeen = required ? (required[model] ?? []).includes(field) : true
+      if (mustBeSeen && !observedFields[field]) {
+        drift.push({ against, model, field, change: 'removed', expected: expectedFields[field], observed: [] })
+      }
+    }
+  }
+
+  return drift
+}
+
+/**
+ * Compares observed shapes with the zod models and, unless the baseline is being replaced, with the baseline.
+ *
+ * @param {ObservedShapes} observed - Shapes of the run or of a worker.
+ * @param {SchemaShape | undefined} baseline - Saved baseline, `undefined` when there is none yet.
+ * @param {SchemaDriftMode} mode - Drift mode; `update` skips the baseline comparison.
+ * @returns {SchemaDrift[]} Drift against the models followed by drift against the baseline.
+ */
+export function findSchemaDrift(observed: ObservedShapes, baseline: SchemaShape | undefined, mode: SchemaDriftMode): SchemaDrift[] {
+  const { shape, required } = declaredShapes()
+
+  return [
+    ...compareShapes('model', shape, observed, required),
+    ...(baseline && mode !== 'update' ? compareShapes('baseline', baseline, observed) : []),
+  ]
+}
+
+/**
+ * Reads the baseline, or returns `undefined` when none has been saved yet.
+ *
+ * @param {string} [file] - Path to the baseline.
+ * @returns {SchemaShape | undefined} Baseline shapes.
+ */
+export function loadSchemaBaseline(file: string = schemaBaselinePath): SchemaShape | undefined {
+  return existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : undefined
+}
+
+/**
+ * Builds the next baseline: the observed types of the models seen in the run, and the previous
+ * baseline of the models that were not.
+ *
+ * @param {ObservedShapes} observed - Shapes of the run.
+ * @param {SchemaShape} [previous] - Current baseline.
+ * @returns {SchemaShape} Baseline to save.
+ */
+export function nextSchemaBaseline(observed: ObservedShapes, previous: SchemaShape = {}): SchemaShape {
+  const baseline: SchemaShape = { ...previous }
+  for (const [model, { fields }] of Object.entries(observed)) {
+    baseline[model] = Object.fromEntries(Object.keys(fields).sort().map((field) => [field, fields[field].types]))
+  }
+
+  return Object.fromEntries(Object.keys(baseline).sort().map((model) => [model, baseline[model]]))
+}
+
+/**
+ * Formats the drift as a section of the console output.
+ *
+ * @param {SchemaDrift[]} drift - Result of `compareShapes`.
+ * @returns {string} Human-readable report.
+ */
+export function formatSchemaDrift(drift: SchemaDrift[]): string {
+  if (drift.length === 0) {
+    return 'Schema drift: none'
+  }
+  const lines = drift.map(({ against, model, field, change, expected, observed }) =>
+    `  ${`${model}.${field}`.padEnd(28)} ${change.padEnd(8)} ${describeTypes(expected)} → ${describeTypes(observed)} (${against})`)
+
+  return [`Schema drift (${drift.length} field(s), compared with the zod models and the baseline):`, ...lines].join('\n')
+}
+
+/**
+ * Renders the drift and the observed shapes as a standalone HTML page.
+ *
+ * @param {SchemaDrift[]} drift - Result of `compareShapes`.
+ * @param {ObservedShapes} observed - Shapes of the run.
+ * @returns {string} HTML document.
+ */
+export function renderSchemaDriftHtml(drift: SchemaDrift[], observed: ObservedShapes): string {
+  const driftRows = drift.map(({ against, model, field, change, expected, observed: types }) =>
+    `<tr class="${change}"><th>${escapeHtml(model)}.${escapeHtml(field)}</th><td>${change}</td><td>${against}</td>` +
+    `<td>${escapeHtml(describeTypes(expected))}</td><td>${escapeHtml(describeTypes(types))}</td></tr>`)
+  const shapeRows = Object.entries(observed).flatMap(([model, { objects, fields }]) => Object.keys(fields).sort().map((field) =>
+    `<tr><th>${escapeHtml(model)}.${escapeHtml(field)}</th><td>${escapeHtml(describeTypes(fields[field].types))}</td>` +
+    `<td>${fields[field].count} / ${objects}</td></tr>`))
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Schema drift</title>
+<style>
+  body { font-family: sans-serif; margin: 2em; }
+  table { border-collapse: collapse; margin-bottom: 2em; }
+  th, td { border: 1px solid #ccc; padding: 4px 10px; text-align: center; }
+  th { text-align: left; }
+  tr.added td { background: #d7f5dd; }
+  tr.removed td { background: #f7d4d4; }
+  tr.retyped td { background: #fbefc4; }
+</style>
+</head>
+<body>
+<h1>Schema drift</h1>
+<p>${drift.length} difference(s) between the response bodies of this run and the zod models or the saved baseline.</p>
+<table>
+<thead><tr><th>Field</th><th>Change</th><th>Compared with</th><th>Expected</th><th>Observed</th></tr></thead>
+<tbody>
+${driftRows.join('\n')}
+</tbody>
+</table>
+<h2>Observed fields</h2>
+<table>
+<thead><tr><th>Field</th><th>Types</th><th>Seen in objects</th></tr></thead>
+<tbody>
+${shapeRows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`
+}
+
+interface JsonSchemaNode {
+  type?: string | string[],
+  anyOf?: JsonSchemaNode[],
+  properties?: Record<string, JsonSchemaNode>,
+  required?: string[],
+  items?: JsonSchemaNode,
+}
+
+function jsonType(value: unknown): JsonType {
+  if (value === null) {
+    return 'null'
+  }
+  if (Array.isArray(value)) {
+    return 'array'
+  }
+
+  return typeof value as JsonType
+}
+
+function collectFields(value: Record<string, unknown>, prefix: string, fields: Map<string, Set<JsonType>>): void {
+  for (const [key, child] of Object.entries(value)) {
+    collectValue(child, `${prefix}${key}`, fields)
+  }
+}
+
+function collectValue(value: unknown, field: string, fields: Map<string, Set<JsonType>>): void {
+  const types = fields.get(field) ?? new Set<JsonType>()
+  types.add(jsonType(value))
+  fields.set(field, types)
+  if (jsonType(value) === 'object') {
+    collectFields(value as Record<string, unknown>, `${field}.`, fields)
+  } else if (Array.isArray(value)) {
+    value.forEach((element) => collectValue(element, `${field}[]`, fields))
+  }
+}
+
+function schemaFields(node: JsonSchemaNode, prefix: string, fields: Map<string, Set<JsonType>>, required?: string[]): void {
+  for (const [key, property] of Object.entries(node.properties ?? {})) {
+    const field = `${prefix}${key}`
+    if (node.required?.includes(key)) {
+      required?.push(field)
+    }
+    schemaValue(property, field, fields)
+  }
+}
+
+function schemaValue(node: JsonSchemaNode, field: string, fields: Map<string, Set<JsonType>>): void {
+  const variants = node.anyOf ?? [node]
+  for (const variant of variants) {
+    const types = fields.get(field) ?? new Set<JsonType>()
+    for (const type of [variant.type ?? []].flat()) {
+      types.add(type === 'integer' ? 'number' : type as JsonType)
+    }
+    fields.set(field, types)
+    schemaFields(variant, `${field}.`, fields)
+    if (variant.items) {
+      schemaValue(variant.items, `${field}[]`, fields)
+    }
+  }
+}
+
+function mergeField(
+  current: { count: number, types: JsonType[] } | undefined,
+  seen: { count: number, types: JsonType[] }
+): { count: number, types: JsonType[] } {
+  return {
+    count: (current?.count ?? 0) + seen.count,
+    types: [...new Set([...current?.types ?? [], ...seen.types])].sort(),
+  }
+}
+
+function parentField(field: string): string {
+  return field.replace(/(\[\]|\.[^.[\]]+)$/, '')
+}
+
+function describeTypes(types: JsonType[]): string {
+  return types.length === 0 ? '—' : types.join(' | ')
+}
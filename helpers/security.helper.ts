@@ -0,0 +1,138 @@
+import { APIResponse, expect, TestInfo } from '@playwright/test'
+import { Barrel } from '../models/barrel.model'
+
+/**
+ * Impact of a failed security check, from least to most severe.
+ */
+export const severities = ['info', 'low', 'medium', 'high', 'critical'] as const
+
+export type Severity = typeof severities[number]
+
+/**
+ * Outcome of one security check.
+ */
+export interface SecurityFinding {
+  check: string,
+  severity: Severity,
+  passed: boolean,
+  details: string,
+}
+
+/**
+ * Lowest severity that fails a test, from `SECURITY_FAIL_ON`; weaker findings are only reported.
+ */
+export const failingSeverity: Severity = (process.env['SECURITY_FAIL_ON'] as Severity | undefined) ?? 'medium'
+
+/**
+ * Writes the tags of a barrel as JSON object members, to splice them into a raw JSON body.
+ *
+ * @param {Barrel} barrel - Barrel with the tags, e.g. from `buildBarrel()`.
+ * @returns {string} Members such as `"qr": "…", "rfid": "…", "nfc": "…"`.
+ */
+export function tagMembers({ qr, rfid, nfc }: Barrel): string {
+  return `"qr": ${JSON.stringify(qr)}, "rfid": ${JSON.stringify(rfid)}, "nfc": ${JSON.stringify(nfc)}`
+}
+
+/**
+ * Payloads that must not reach the object prototype of the server, as `[name, body]` pairs, since a
+ * `__proto__` key in an object literal would set its prototype instead of adding an entry.
+ * Every payload gets the tags of its own barrel, so the API sees otherwise valid bodies.
+ *
+ * @param {() => Barrel} barrel - Builds a barrel with unique tags, e.g. `buildBarrel`.
+ * @returns {[string, string][]} Name and raw JSON body of every payload.
+ */
+export function prototypePollutionPayloads(barrel: () => Barrel): [string, string][] {
+  return [
+    ['__proto__', `{"__proto__": {"polluted": true}, ${tagMembers(barrel())}}`],
+    ['constructor.prototype', `{"constructor": {"prototype": {"polluted": true}}, ${tagMembers(barrel())}}`],
+    ['nested __proto__', `{${tagMembers(barrel())}, "meta": {"__proto__": {"polluted": true}}}`],
+  ]
+}
+
+/**
+ * Identifiers that try to escape `/{id}` or smuggle special characters into it.
+ * They are used verbatim as the last path segment, so encoded slashes stay encoded.
+ */
+export const hostileIds: Record<string, string> = {
+  'encoded traversal': '..%2F..%2F..%2Fetc%2Fpasswd',
+  'double encoded traversal': '..%252F..%252Fetc%252Fpasswd',
+  'backslash traversal': '..%5C..%5Cwindows%5Cwin.ini',
+  'null byte': '00000000-0000-0000-0000-000000000000%00',
+  'invalid percent encoding': '%ZZ',
+  'encoded space': '%20',
+  'unicode': '%E2%80%AE%F0%9F%9B%A2',
+  'script': '%3Cscript%3Ealert(1)%3C%2Fscript%3E',
+  'sql': '1%27%20OR%20%271%27%3D%271',
+}
+
+/**
+ * Bodies that are not valid JSON objects.
+ */
+export const malformedBodies: Record<string, string> = {
+  'truncated object': '{"qr": "q", "rfid": "r", "nfc": ',
+  'truncated string': '{"qr": "q',
+  'single quotes': '{\'qr\': \'q\'}',
+  'trailing comma': '{"qr": "q", "rfid": "r", "nfc": "n",}',
+  'unquoted keys': '{qr: "q", rfid: "r", nfc: "n"}',
+  'not json': 'qr=q&rfid=r&nfc=n',
+  'bare array': '[]',
+  'deep nesting': `${'['.repeat(1000)}${']'.repeat(1000)}`,
+}
+
+/**
+ * Collects the security checks of a test, fails it for findings at or above `failingSeverity`
+ * and reports every check with its severity as a test annotation and a JSON attachment.
+ */
+export class SecurityChecks {
+  readonly findings: SecurityFinding[] = []
+
+  constructor(private readonly testInfo: TestInfo) {}
+
+  /**
+   * Records the outcome of a check.
+   *
+   * @param {string} check - What was checked, e.g. `X-Content-Type-Options on GET /barrels`.
+   * @param {Severity} severity - Impact when the check fails.
+   * @param {boolean} passed - Whether the API behaved securely.
+   * @param {string} details - Observed behaviour.
+   */
+  check(check: string, severity: Severity, passed: boolean, details: string): void {
+    this.findings.push({ check, severity, passed, details })
+    if (severities.indexOf(severity) >= severities.indexOf(failingSeverity)) {
+      expect.soft(passed, `[${severity}] ${check}: ${details}`).toBeTruthy()
+    }
+  }
+
+  /**
+   * Adds the findings to the report.
+   */
+  async report(): Promise<void> {
+    if (this.findings.length === 0) {
+      return
+    }
+    for (const { check, severity, passed, details } of this.findings) {
+      this.testInfo.annotations.push({ type: `security ${severity}`, description: `${passed ? 'pass' : 'FAIL'}: ${check} (${details})` })
+    }
+    await this.testInfo.attach('security-findings', { body: JSON.stringify(this.findings, null, 2), contentType: 'application/json' })
+  }
+}
+
+/**
+ * Checks that an error response does not leak implementation details such as stack traces.
+ *
+ * @param {string} body - Response body.
+ * @returns {string | undefined} The leaked fragment, `undefined` when the body is clean.
+ */
+export function findLeakedInternals(body: string): string | undefined {
+  return body.match(/\bat [\w.$<>]+\(.*:\d+\)|\b\w+(\.\w+)+Exception\b|\/(usr|home|var|app)\/[\w./-]+|[A-Z]:\\[\w\\]+/)?.[0]
+}
+
+/**
+ * Describes a response in one line for finding details, e.g. `400 application/problem+json`.
+ *
+ * @param {APIResponse} response - Response to describe.
+ * @returns {string} Status and content type.
+ */
+export function describeResponse(response: APIResponse): string {
+  return `${response.status()} ${response.headers()['content-type'] ?? 'without content type'}`
+}
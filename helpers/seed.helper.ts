@@ -0,0 +1,57 @@
+import { TestInfo } from '@playwright/test'
+import { createHash } from 'crypto'
+import path from 'path'
+
+/**
+ * Reference date of generated time-based values such as ULIDs, so they depend on the seed only.
+ */
+export const fakerRefDate = new Date('2025-01-01T00:00:00Z')
+
+/**
+ * Seed of the run from `TEST_SEED`. The global setup picks one when none is given
+ * and passes it to the workers, so every worker derives the same per-test seeds.
+ *
+ * @returns {number} Seed of the run.
+ */
+export function runSeed(): number {
+  return Number(process.env['TEST_SEED'] ?? 0)
+}
+
+/**
+ * Seed of a single test: `TEST_CASE_SEED` when set, to rerun a test with the data of an earlier run,
+ * otherwise derived from the run seed and the title path, so tests do not depend on their order.
+ *
+ * @param {TestInfo} testInfo - Info of the running test.
+ * @returns {number} 32-bit seed.
+ */
+export function testSeed(testInfo: TestInfo): number {
+  if (process.env['TEST_CASE_SEED']) {
+    return Number(process.env['TEST_CASE_SEED'])
+  }
+
+  return createHash('sha1').update(`${runSeed()}\u0000${testInfo.titlePath.join('\u0000')}`).digest().readUInt32BE(0)
+}
+
+/**
+ * Seed of the `beforeAll` hooks of a describe block, derived from the run seed and the titles of the describe
+ * blocks of the test the hooks run for, so setup data does not depend on the tests that ran before in the worker.
+ *
+ * @param {TestInfo} testInfo - Info passed to the hook.
+ * @returns {number} 32-bit seed.
+ */
+export function describeSeed(testInfo: TestInfo): number {
+  return createHash('sha1').update(`${runSeed()}\u0000${testInfo.titlePath.slice(0, -1).join('\u0000')}`).digest().readUInt32BE(0)
+}
+
+/**
+ * Command that reruns a test with its seed, e.g. `TEST_CASE_SEED=42 npx playwright test tests/barrels.spec.ts:17`.
+ *
+ * @param {TestInfo} testInfo - Info of the test.
+ * @param {number} seed - Seed of the test.
+ * @returns {string} Shell command.
+ */
+export function rerunCommand(testInfo: TestInfo, seed: number): string {
+  const file = path.relative(process.cwd(), testInfo.file).split(path.sep).join('/')
+
+  return `TEST_CASE_SEED=${seed} npx playwright test ${file}:${testInfo.line}`
+}
@@ -0,0 +1,164 @@
+import { existsSync, readFileSync } from 'fs'
+import path from 'path'
+import { FailureClass } from './failure-classification.helper'
+import { escapeHtml } from './api-coverage.helper'
+
+/**
+ * Final result of a test in one run. `flaky` means it failed and then passed on a retry.
+ */
+export type RunOutcome = 'passed' | 'failed' | 'flaky'
+
+/**
+ * Outcome of one test in one run.
+ */
+export interface TestRun {
+  /** Start of the run, ISO 8601. */
+  startedAt: string,
+  outcome: RunOutcome,
+  attempts: number,
+  /** Classes of the failed attempts, each once, in order of first occurrence. */
+  failureClasses: FailureClass[],
+}
+
+/**
+ * Outcomes of the tests across runs, oldest run first.
+ */
+export interface TestHistory {
+  tests: Record<string, { title: string, runs: TestRun[] }>,
+}
+
+/**
+ * A test whose outcome is not stable across the stored runs.
+ */
+export interface FlakyTest {
+  title: string,
+  /** Changes between passing and failing across the stored runs. */
+  flips: number,
+  /** Runs in which the test only passed on a retry. */
+  flakyRuns: number,
+  /** Outcomes of the stored runs, oldest first, e.g. `✓✓✗✓~`. */
+  trend: string,
+  failureClasses: FailureClass[],
+}
+
+/**
+ * Default location of the history, overridable with `TEST_HISTORY`.
+ */
+export const testHistoryPath = path.resolve(__dirname, '..', process.env['TEST_HISTORY'] ?? 'test-history/history.json')
+
+/**
+ * Runs kept per test, from `TEST_HISTORY_RUNS` (default `20`).
+ */
+export const testHistoryRuns = Number(process.env['TEST_HISTORY_RUNS'] ?? 20)
+
+/**
+ * Reads the stored history; an empty one when there is none yet.
+ *
+ * @param {string} [file] - Path to the JSON history.
+ * @returns {TestHistory} Stored outcomes.
+ */
+export function loadTestHistory(file: string = testHistoryPath): TestHistory {
+  return existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : { tests: {} }
+}
+
+/**
+ * Appends the outcome of a test, keeping the newest `limit` runs.
+ *
+ * @param {TestHistory} history - History to update in place.
+ * @param {string} id - Stable test id.
+ * @param {string} title - Readable test title.
+ * @param {TestRun} run - Outcome of the current run.
+ * @param {number} [limit] - Runs kept per test.
+ */
+export function recordTestRun(history: TestHistory, id: string, title: string, run: TestRun, limit: number = testHistoryRuns): void {
+  const entry = history.tests[id] ?? { title, runs: [] }
+  entry.title = title
+  entry.runs = [...entry.runs, run].slice(-limit)
+  history.tests[id] = entry
+}
+
+/**
+ * Finds tests that passed only on a retry, or whose outcome flipped between passing and failing
+ * more than once across the stored runs. A single flip is a regression or a fix, not flakiness.
+ *
+ * @param {TestHistory} history - Stored outcomes.
+ * @returns {FlakyTest[]} Flaky tests, most unstable first.
+ */
+export function findFlakyTests(history: TestHistory): FlakyTest[] {
+  const symbols: Record<RunOutcome, string> = { passed: '✓', failed: '✗', flaky: '~' }
+
+  return Object.values(history.tests).flatMap(({ title, runs }) => {
+    const passed = runs.map(({ outcome }) => outcome !== 'failed')
+    const flips = passed.slice(1).filter((value, i) => value !== passed[i]).length
+    const flakyRuns = runs.filter(({ outcome }) => outcome === 'flaky').length
+    if (flips < 2 && flakyRuns === 0) {
+      return []
+    }
+
+    return [{
+      title,
+      flips,
+      flakyRuns,
+      trend: runs.map(({ outcome }) => symbols[outcome]).join(''),
+      failureClasses: [...new Set(runs.flatMap(({ failureClasses }) => failureClasses))],
+    }]
+  }).sort((a, b) => (b.flips + b.flakyRuns) - (a.flips + a.flakyRuns) || a.title.localeCompare(b.title))
+}
+
+/**
+ * Formats the flaky tests as a report section for the console.
+ *
+ * @param {FlakyTest[]} flaky - Result of `findFlakyTests`.
+ * @param {number} runs - Number of runs the history covers at most.
+ * @returns {string} Multi-line section.
+ */
+export function formatFlakyTests(flaky: FlakyTest[], runs: number = testHistoryRuns): string {
+  if (flaky.length === 0) {
+    return `Flaky tests (last ${runs} runs): none`
+  }
+  const lines = flaky.map(({ title, flips, flakyRuns, trend, failureClasses }) =>
+    `  ${trend.padEnd(runs)}  ${title} (${flips} flip(s), ${flakyRuns} pass(es) on retry` +
+    `${failureClasses.length > 0 ? `; failures: ${failureClasses.join(', ')}` : ''})`)
+
+  return [`Flaky tests (last ${runs} runs, ✓ passed, ✗ failed, ~ passed on retry):`, ...lines].join('\n')
+}
+
+/**
+ * Renders the flaky tests as a standalone HTML page.
+ *
+ * @param {FlakyTest[]} flaky - Result of `findFlakyTests`.
+ * @param {number} runs - Number of runs the history covers at most.
+ * @returns {string} HTML document.
+ */
+export function renderFlakyHtml(flaky: FlakyTest[], runs: number = testHistoryRuns): string {
+  const rows = flaky.map(({ title, flips, flakyRuns, trend, failureClasses }) =>
+    `<tr><th>${escapeHtml(title)}</th><td class="trend">${trend}</td><td>${flips}</td><td>${flakyRuns}</td>` +
+    `<td>${failureClasses.map(escapeHtml).join(', ')}</td></tr>`)
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Flaky tests</title>
+<style>
+  body { font-family: sans-serif; margin: 2em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 4px 10px; text-align: center; }
+  th { text-align: left; }
+  td.trend { font-family: monospace; text-align: left; }
+</style>
+</head>
+<body>
+<h1>Flaky tests</h1>
+<p>${flaky.length} test(s) passed only on a retry or changed more than once between passing and failing in the last ${runs} runs.
+Trend, oldest first: ✓ passed, ✗ failed, ~ passed on retry.</p>
+<table>
+<thead><tr><th>Test</th><th>Trend</th><th>Flips</th><th>Passes on retry</th><th>Failure classes</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`
+}
@@ -0,0 +1,120 @@
+import { BaseApi } from '../api/base.api'
+import { expect } from './matchers.helper'
+
+/**
+ * Ways a single payload field can be invalid.
+ */
+export type InvalidValueKind =
+  'missing' | 'null' | 'undefined' | 'empty' | 'wrong type' | 'negative' | 'out of range'
+
+/**
+ * Expected first message per `errors` key, either exact or as an asymmetric matcher
+ * such as `expect.stringContaining(...)`.
+ */
+export type ExpectedErrors = Record<string, unknown>
+
+/**
+ * One row of a validation matrix: a field, how it is broken and what the API must answer.
+ */
+export interface ValidationRow {
+  field: string,
+  kind: InvalidValueKind,
+  /** Invalid value to send; defaults to a typical value for the kind. */
+  value?: unknown,
+  status: number,
+  errors: ExpectedErrors,
+}
+
+/**
+ * Typical invalid value per kind; `out of range` has none, since it depends on the limit
+ * of the field.
+ */
+const defaultValues: Partial<Record<InvalidValueKind, unknown>> = {
+  'missing': undefined,
+  'null': null,
+  'undefined': undefined,
+  'empty': '',
+  'wrong type': 123,
+  'negative': -10,
+}
+
+/**
+ * Expected errors when ASP.NET reports a field as required.
+ *
+ * @param {string} model - Property name as used by the API, e.g. `Qr`.
+ * @param {string} [displayName] - Name used in the message when it differs from `model`.
+ * @returns {Pick<ValidationRow, 'status' | 'errors'>} Status 400 and the required message.
+ */
+export function required(model: string, displayName: string = model): Pick<ValidationRow, 'status' | 'errors'> {
+  return { status: 400, errors: { [model]: `The ${displayName} field is required.` } }
+}
+
+/**
+ * Expected errors when System.Text.Json cannot convert the JSON value of a field.
+ *
+ * @param {string} parameter - Name of the bound action parameter, e.g. `barrel`.
+ * @param {string} field - JSON property name, e.g. `qr`.
+ * @param {string} clrType - Target .NET type, e.g. `System.String`.
+ * @returns {Pick<ValidationRow, 'status' | 'errors'>} Status 400 with parameter and JSON path errors.
+ */
+export function notConvertible(parameter: string, field: string, clrType: string): Pick<ValidationRow, 'status' | 'errors'> {
+  return {
+    status: 400,
+    errors: {
+      [parameter]: `The ${parameter} field is required.`,
+      [`$.${field}`]: expect.stringContaining(`The JSON value could not be converted to ${clrType}`),
+    },
+  }
+}
+
+/**
+ * Expected errors for a custom validation message.
+ *
+ * @param {string} model - Property name as used by the API.
+ * @param {string} message - Expected message.
+ * @returns {Pick<ValidationRow, 'status' | 'errors'>} Status 400 with the message.
+ */
+export function invalid(model: string, message: string): Pick<ValidationRow, 'status' | 'errors'> {
+  return { status: 400, errors: { [model]: message } }
+}
+
+/**
+ * Posts the valid payload with the row's field broken and checks the status
+ * and the `errors` object, which must not report any field beyond the expected ones.
+ *
+ * @param {BaseApi} api - Client of the endpoint under test.
+ * @param {Record<string, unknown>} validPayload - Payload where every field is valid.
+ * @param {ValidationRow} row - Matrix row to check.
+ */
+export async function checkValidationRow(
+  api: BaseApi<{ id?: string }>,
+  validPayload: Record<string, unknown>,
+  row: ValidationRow
+): Promise<void> {
+  const result = await api.create(breakField(validPayload, row))
+
+  if (row.status === 400) {
+    expect(result).toHaveValidationErrors(row.errors)
+  } else {
+    expect(result).toBeProblemDetails(row.status)
+  }
+}
+
+/**
+ * Builds a test title that shows the whole row, so the matrix can be read from the report.
+ *
+ * @param {ValidationRow} row - Matrix row.
+ * @returns {string} Title such as `qr is null → 400 (Qr: The Qr field is required.)`.
+ */
+export function validationRowTitle(row: ValidationRow): string {
+  const errors = Object.entries(row.errors)
+    .map(([key, message]) => `${key}: ${typeof message === 'string' ? message : `…${(message as { sample?: string }).sample}…`}`)
+
+  return `${row.field} is ${row.kind} → ${row.status} (${errors.join('; ')})`
+}
+
+function breakField(payload: Record<string, unknown>, row: ValidationRow): Record<string, unknown> {
+  const rest = Object.fromEntries(Object.entries(payload).filter(([name]) => name !== row.field))
+
+  return row.kind === 'missing' ? rest : { ...rest, [row.field]: 'value' in row ? row.value : defaultValues[row.kind] }
+}
@@ -1,10 +1,31 @@
 import { z } from 'zod/v4'
+import { Limit } from './limits.model'
+
+/**
+ * Length limits of the barrel tags, in characters. The schema and the boundary tests are derived from them.
+ *
+ * NOTE: The live API accepted 10000 characters long tags at the time of writing.
+ * I would expect the data should follow some kind of structure and report it.
+ */
+export const barrelLimits = {
+  qr: { min: 1, max: 255 },
+  rfid: { min: 1, max: 255 },
+  nfc: { min: 1, max: 255 },
+} as const satisfies Record<string, Limit>
+
+/**
+ * Physical identifiers of a barrel. The API does not keep them unique, several barrels may carry
+ * the same value; see `tests/tag-policy.spec.ts` for how values are compared.
+ */
+export type TagKind = keyof typeof barrelLimits
+
+export const tagKinds = Object.keys(barrelLimits) as TagKind[]
 
 export const barrelObject = z.object({
-  id: z.string().optional(),
-  qr: z.string().min(1),
-  rfid: z.string().min(1),
-  nfc: z.string().min(1),
+  id: z.uuid().optional(),
+  qr: z.string().min(barrelLimits.qr.min).max(barrelLimits.qr.max),
+  rfid: z.string().min(barrelLimits.rfid.min).max(barrelLimits.rfid.max),
+  nfc: z.string().min(barrelLimits.nfc.min).max(barrelLimits.nfc.max),
 })
 
 export type Barrel = z.infer<typeof barrelObject>
@@ -1,21 +1,33 @@
-export interface ErrorResponse {
-  title: string,
-  status: number,
-}
+import { z } from 'zod/v4'
 
-export interface BarrelErrorResponse extends ErrorResponse {
-  errors: {
-    Qr?: string[],
-    Nfc?: string[],
-    Rfid?: string[],
-  }
-}
+/**
+ * Title ASP.NET uses for every model validation failure.
+ */
+export const validationErrorTitle = 'One or more validation errors occurred.'
 
-export interface MeasurementErrorResponse extends ErrorResponse {
-  errors: {
-    BarrelId?: string[],
-    DirtLevel?: string[],
-    Weight?: string[],
-  }
-}
+/**
+ * RFC 7807 problem details returned by both `/barrels` and `/measurements` for failed requests.
+ * `errors` maps a model property (`Qr`) or JSON path (`$.qr`) to its messages.
+ */
+export const problemDetailsObject = z.object({
+  type: z.string().nullish(),
+  title: z.string(),
+  status: z.int(),
+  detail: z.string().nullish(),
+  instance: z.string().nullish(),
+  traceId: z.string().optional(),
+  errors: z.record(z.string(), z.array(z.string()).min(1)).optional(),
+})
 
+/**
+ * Problem details of a request rejected by model validation; `errors` is always present.
+ */
+export const validationProblemDetailsObject = problemDetailsObject.extend({
+  title: z.literal(validationErrorTitle),
+  status: z.literal(400),
+  errors: z.record(z.string(), z.array(z.string()).min(1)),
+})
+
+export type ProblemDetails = z.infer<typeof problemDetailsObject>
+
+export type ValidationProblemDetails = z.infer<typeof validationProblemDetailsObject>
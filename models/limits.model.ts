@@ -0,0 +1,25 @@
+/**
+ * Inclusive range accepted by the API: a length in characters for strings, a value for numbers.
+ */
+export interface Limit {
+  min: number,
+  max: number,
+  /** The minimum itself is rejected, e.g. a weight of `0`. */
+  minExclusive?: boolean,
+}
+
+/**
+ * Largest finite float32, the upper edge of `float` properties of the API.
+ */
+export const float32Max = 3.4028234663852886e38
+
+/**
+ * Checks a length or value against a limit.
+ *
+ * @param {Limit} limit - Accepted range.
+ * @param {number} value - Length or value to check.
+ * @returns {boolean} `true` when the API must accept the value.
+ */
+export function isWithinLimit({ min, max, minExclusive }: Limit, value: number): boolean {
+  return (minExclusive ? value > min : value >= min) && value <= max
+}
@@ -1,10 +1,20 @@
 import { z } from 'zod/v4'
+import { dirtLevelRule, float32Schema, weightRule } from './numeric-rules.model'
+
+/**
+ * Value ranges of the measured quantities, see `numeric-rules.model.ts`. The schema and the
+ * boundary tests are derived from them.
+ */
+export const measurementLimits = {
+  dirtLevel: dirtLevelRule,
+  weight: weightRule,
+}
 
 export const measurementObject = z.object({
   id: z.uuid().optional(),
   barrelId: z.uuid(),
-  dirtLevel: z.float32(),
-  weight: z.float32(),
+  dirtLevel: float32Schema(dirtLevelRule),
+  weight: float32Schema(weightRule),
 })
 
-export type Measurement = z.infer<typeof measurementObject>
\ No newline at end of file
+export type Measurement = z.infer<typeof measurementObject>
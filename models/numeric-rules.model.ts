@@ -0,0 +1,69 @@
+import { z } from 'zod/v4'
+import { float32Max, isWithinLimit, Limit } from './limits.model'
+
+/**
+ * Meaning of a measured number: its accepted range and unit. The API stores measurements as
+ * .NET `float`, so every value is rounded to float32 before it is checked against the range.
+ */
+export interface NumericRule extends Limit {
+  unit: string,
+}
+
+/**
+ * Contamination of the barrel as a percentage, from clean (`0`) to fully dirty (`100`).
+ */
+export const dirtLevelRule: NumericRule = { min: 0, max: 100, unit: '%' }
+
+/**
+ * Gross weight of the barrel in kilograms; an empty barrel still weighs something, so `0` is rejected.
+ */
+export const weightRule: NumericRule = { min: 0, minExclusive: true, max: float32Max, unit: 'kg' }
+
+/**
+ * Builds the zod schema of a float32 property that follows a rule.
+ *
+ * @param {NumericRule} rule - Range of the property.
+ * @returns {z.ZodNumber} Schema for the model.
+ */
+export function float32Schema({ min, max, minExclusive }: NumericRule): z.ZodNumber {
+  const schema = z.float32().max(max)
+
+  return minExclusive ? schema.gt(min) : schema.min(min)
+}
+
+/**
+ * Checks whether the API must accept a value, after rounding it to float32 like .NET does.
+ *
+ * @param {NumericRule} rule - Range of the property.
+ * @param {number} value - Value as sent.
+ * @returns {boolean} `true` when the value is accepted.
+ */
+export function isAcceptedBy(rule: NumericRule, value: number): boolean {
+  const rounded = Math.fround(value)
+
+  return Number.isFinite(rounded) && isWithinLimit(rule, rounded)
+}
+
+/**
+ * Compares numbers the way they are stored: equal when both round to the same float32.
+ * Use it for round-trips instead of `toBe`, since `0.1` comes back as `0.1` only by luck
+ * of the shortest float32 representation, and `16777217` comes back as `16777216`.
+ *
+ * @param {number} actual - Value returned by the API.
+ * @param {number} expected - Value sent to the API.
+ * @returns {boolean} `true` when both are the same float32.
+ */
+export function float32Equals(actual: number, expected: number): boolean {
+  return Math.fround(actual) === Math.fround(expected)
+}
+
+/**
+ * Formats a value with its unit, e.g. `12.5 kg`.
+ *
+ * @param {NumericRule} rule - Rule of the property.
+ * @param {number} value - Value to format.
+ * @returns {string} Value and unit.
+ */
+export function formatQuantity(rule: NumericRule, value: number): string {
+  return `${value} ${rule.unit}`
+}
@@ -1,18 +1,31 @@
 import { defineConfig, devices } from '@playwright/test'
 import dotenv from 'dotenv'
 import path from 'path'
+import { resolveEnvironment } from './config/environments'
+import { cassetteMode, replayBaseUrl } from './helpers/cassette.helper'
 
 dotenv.config({ path: path.resolve(__dirname, '.env') })
 
+/**
+ * Environment selected by `TEST_ENV` (local, dev, staging, prod); see `config/environments.ts`.
+ */
+const environment = resolveEnvironment()
+
 export default defineConfig({
   testDir: './tests',
+  snapshotPathTemplate: '{testDir}/golden/{testFileName}/{arg}{ext}',
+  globalSetup: './server/global-setup.ts',
+  globalTeardown: './server/global-teardown.ts',
   fullyParallel: true,
   forbidOnly: !!process.env.CI,
   retries: process.env.CI ? 2 : 0,
-  workers: process.env.CI ? 1 : undefined,
-  reporter: 'html',
+  workers: process.env.CI ? 1 : environment.workers,
+  timeout: environment.timeout,
+  reporter: [['html'], ['./reporters/api-coverage.reporter.ts'], ['./reporters/test-history.reporter.ts'],
+    ['./reporters/schema-drift.reporter.ts']],
   use: {
-    baseURL: process.env['BASE_URL'],
+    baseURL: cassetteMode === 'replay' ? replayBaseUrl : environment.baseURL,
+    actionTimeout: environment.requestTimeout,
     extraHTTPHeaders: {
       'Content-Type': 'application/json',
     },
@@ -0,0 +1,68 @@
+import { mkdirSync, writeFileSync } from 'fs'
+import path from 'path'
+import { FullConfig, Reporter, TestCase, TestResult } from '@playwright/test/reporter'
+import {
+  ApiCall, apiCallsAttachment, buildCoverageMatrix, buildTagCoverage, loadApiSurface, renderCoverageHtml,
+  untestedCombinations
+} from '../helpers/api-coverage.helper'
+
+export interface ApiCoverageReporterOptions {
+  /** Folder receiving `index.html` and `coverage.json`, relative to the config. */
+  outputFolder?: string,
+  /** OpenAPI document to derive the API surface from; the contract document when omitted. */
+  document?: string,
+}
+
+/**
+ * Collects the requests recorded by the API fixtures and writes an endpoint × method × status
+ * coverage matrix, as HTML and JSON, next to the HTML report. Calls are also grouped by the tags
+ * of the tests that made them.
+ */
+export default class ApiCoverageReporter implements Reporter {
+  private readonly calls: ApiCall[] = []
+  private readonly tags = new Map<string, { tests: Set<string>, calls: ApiCall[] }>()
+  private outputFolder = ''
+
+  constructor(private readonly options: ApiCoverageReporterOptions = {}) {}
+
+  onBegin(config: FullConfig): void {
+    const configDir = config.configFile ? path.dirname(config.configFile) : config.rootDir
+    this.outputFolder = path.resolve(configDir, this.options.outputFolder ?? 'api-coverage-report')
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    for (const attachment of result.attachments) {
+      if (attachment.name === apiCallsAttachment && attachment.body) {
+        const calls = JSON.parse(attachment.body.toString()) as ApiCall[]
+        this.calls.push(...calls)
+        for (const tag of test.tags) {
+          const group = this.tags.get(tag) ?? { tests: new Set<string>(), calls: [] }
+          group.tests.add(test.id)
+          group.calls.push(...calls)
+          this.tags.set(tag, group)
+        }
+      }
+    }
+  }
+
+  onEnd(): void {
+    if (this.calls.length === 0) {
+      return
+    }
+    const surface = loadApiSurface(this.options.document)
+    const matrix = buildCoverageMatrix(surface, this.calls)
+    const tags = [...this.tags.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([tag, { tests, calls }]) => buildTagCoverage(surface, tag, tests.size, calls))
+    const json = { ...matrix, untested: untestedCombinations(matrix), tags }
+
+    mkdirSync(this.outputFolder, { recursive: true })
+    writeFileSync(path.join(this.outputFolder, 'coverage.json'), JSON.stringify(json, null, 2))
+    writeFileSync(path.join(this.outputFolder, 'index.html'), renderCoverageHtml(matrix, tags))
+    console.log(`API coverage: ${matrix.covered}/${matrix.declared} method × status combinations, report in ${this.outputFolder}`)
+  }
+
+  printsToStdio(): boolean {
+    return false
+  }
+}
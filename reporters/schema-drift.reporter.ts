@@ -0,0 +1,71 @@
+import { mkdirSync, writeFileSync } from 'fs'
+import path from 'path'
+import { FullConfig, FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter'
+import {
+  findSchemaDrift, formatSchemaDrift, loadSchemaBaseline, mergeShapes, nextSchemaBaseline, ObservedShapes, renderSchemaDriftHtml,
+  responseShapesAttachment, schemaBaselinePath, SchemaDriftMode, schemaDriftMode
+} from '../helpers/schema-drift.helper'
+
+export interface SchemaDriftReporterOptions {
+  /** Folder receiving `index.html` and `drift.json`, relative to the config. */
+  outputFolder?: string,
+  /** Baseline of the response shapes to compare against. */
+  baselineFile?: string,
+  /** Overrides `SCHEMA_DRIFT`. */
+  mode?: SchemaDriftMode,
+}
+
+/**
+ * Collects the keys and value types of the responses recorded by the API fixtures and compares them with
+ * the zod models and the saved baseline. Added, removed and retyped fields are reported as a section of the
+ * console output and as `index.html` / `drift.json`; with `SCHEMA_DRIFT=strict` drift fails the run, and
+ * with `SCHEMA_DRIFT=update` the observed shapes become the new baseline. Strict mode is also enforced by the
+ * fixtures at worker teardown, so it holds when `--reporter` replaces the configured reporters.
+ */
+export default class SchemaDriftReporter implements Reporter {
+  private readonly observed: ObservedShapes = {}
+  private outputFolder = ''
+
+  constructor(private readonly options: SchemaDriftReporterOptions = {}) {}
+
+  onBegin(config: FullConfig): void {
+    const configDir = config.configFile ? path.dirname(config.configFile) : config.rootDir
+    this.outputFolder = path.resolve(configDir, this.options.outputFolder ?? 'schema-drift-report')
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    for (const attachment of result.attachments) {
+      if (attachment.name === responseShapesAttachment && attachment.body) {
+        mergeShapes(this.observed, JSON.parse(attachment.body.toString()) as ObservedShapes)
+      }
+    }
+  }
+
+  async onEnd(result: FullResult): Promise<{ status: FullResult['status'] } | undefined> {
+    const mode = this.options.mode ?? schemaDriftMode
+    if (mode === 'off' || Object.keys(this.observed).length === 0 || result.status === 'interrupted') {
+      return undefined
+    }
+    const file = this.options.baselineFile ?? schemaBaselinePath
+    const baseline = loadSchemaBaseline(file)
+    if (mode === 'update') {
+      writeFileSync(file, `${JSON.stringify(nextSchemaBaseline(this.observed, baseline), null, 2)}\n`)
+      console.log(`Schema baseline saved to ${file}`)
+    }
+    const drift = findSchemaDrift(this.observed, baseline, mode)
+
+    mkdirSync(this.outputFolder, { recursive: true })
+    writeFileSync(path.join(this.outputFolder, 'drift.json'), JSON.stringify({ drift, observed: this.observed }, null, 2))
+    writeFileSync(path.join(this.outputFolder, 'index.html'), renderSchemaDriftHtml(drift, this.observed))
+    console.log(formatSchemaDrift(drift))
+    if (!baseline && mode !== 'update') {
+      console.log(`No schema baseline at ${file} yet; save one with SCHEMA_DRIFT=update`)
+    }
+
+    return mode === 'strict' && drift.length > 0 ? { status: 'failed' } : undefined
+  }
+
+  printsToStdio(): boolean {
+    return false
+  }
+}
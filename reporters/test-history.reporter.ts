@@ -0,0 +1,80 @@
+import { mkdirSync, writeFileSync } from 'fs'
+import path from 'path'
+import { FullConfig, FullResult, Reporter, Suite, TestCase } from '@playwright/test/reporter'
+import { failureClassAnnotation, FailureClass } from '../helpers/failure-classification.helper'
+import {
+  findFlakyTests, formatFlakyTests, loadTestHistory, recordTestRun, renderFlakyHtml, RunOutcome, testHistoryPath
+} from '../helpers/test-history.helper'
+
+export interface TestHistoryReporterOptions {
+  /** JSON file keeping the outcomes across runs. */
+  historyFile?: string,
+}
+
+/**
+ * Appends the outcome of every test to a local JSON history that survives across runs, together with
+ * the failure classes of its failed attempts, and reports the tests whose outcome is not stable:
+ * as a section of the console output and as `index.html` next to the history.
+ */
+export default class TestHistoryReporter implements Reporter {
+  private suite?: Suite
+  private readonly startedAt = new Date().toISOString()
+
+  constructor(private readonly options: TestHistoryReporterOptions = {}) {}
+
+  onBegin(config: FullConfig, suite: Suite): void {
+    this.suite = suite
+  }
+
+  onEnd(result: FullResult): void {
+    if (!this.suite || result.status === 'interrupted') {
+      return
+    }
+    const file = this.options.historyFile ?? testHistoryPath
+    const history = loadTestHistory(file)
+    for (const test of this.suite.allTests()) {
+      const outcome = runOutcome(test)
+      if (!outcome) {
+        continue
+      }
+      const failureClasses = [...new Set(test.results.flatMap(({ annotations }) => annotations
+        .filter(({ type }) => type === failureClassAnnotation)
+        .map(({ description }) => description as FailureClass)))]
+      recordTestRun(history, test.id, test.titlePath().filter(Boolean).join(' › '), {
+        startedAt: this.startedAt,
+        outcome,
+        attempts: test.results.length,
+        failureClasses,
+      })
+    }
+    const flaky = findFlakyTests(history)
+
+    mkdirSync(path.dirname(file), { recursive: true })
+    writeFileSync(file, JSON.stringify(history, null, 2))
+    writeFileSync(path.join(path.dirname(file), 'index.html'), renderFlakyHtml(flaky))
+    console.log(formatFlakyTests(flaky))
+  }
+
+  printsToStdio(): boolean {
+    return false
+  }
+}
+
+/**
+ * Outcome of a test in this run. A failure followed by a skipped retry is reported as flaky by Playwright;
+ * it is a failure whose retry was skipped because a retry cannot fix it.
+ */
+function runOutcome(test: TestCase): RunOutcome | undefined {
+  const outcomes: Record<ReturnType<TestCase['outcome']>, RunOutcome | undefined> = {
+    expected: 'passed',
+    unexpected: 'failed',
+    flaky: 'flaky',
+    skipped: undefined,
+  }
+
+  if (test.results.length === 0) {
+    return undefined
+  }
+
+  return test.outcome() === 'flaky' && test.results.at(-1)?.status === 'skipped' ? 'failed' : outcomes[test.outcome()]
+}
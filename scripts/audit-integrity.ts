@@ -0,0 +1,52 @@
+import { request } from '@playwright/test'
+import dotenv from 'dotenv'
+import { mkdirSync, writeFileSync } from 'fs'
+import path from 'path'
+import { BarrelApi } from '../api/barrel.api'
+import { MeasurementApi } from '../api/measurement.api'
+import { resolveEnvironment } from '../config/environments'
+import { auditIntegrity, formatIntegritySummary } from '../helpers/integrity-audit.helper'
+
+dotenv.config({ path: path.resolve(__dirname, '..', '.env') })
+
+/**
+ * Referential integrity audit of the whole dataset of the environment selected by `TEST_ENV` / `BASE_URL`.
+ * Prints a summary and writes the JSON report to `--output` (default `integrity-report.json`).
+ * Exits with 1 when problems are found and with 2 when the listings cannot be read.
+ *
+ * Usage: `npm run audit:integrity -- [--output <file>]`
+ */
+async function main(): Promise<number> {
+  const outputIndex = process.argv.indexOf('--output')
+  const output = path.resolve(outputIndex === -1 ? 'integrity-report.json' : process.argv[outputIndex + 1])
+  const environment = resolveEnvironment()
+  const context = await request.newContext({ baseURL: environment.baseURL, timeout: environment.requestTimeout })
+
+  try {
+    const barrels = await new BarrelApi(context).list()
+    const measurements = await new MeasurementApi(context).list()
+    for (const [name, result] of [['GET /barrels', barrels], ['GET /measurements', measurements]] as const) {
+      if (result.status !== 200 || !Array.isArray(result.body)) {
+        console.error(`${name} answered ${result.status}, expected 200 with an array`)
+
+        return 2
+      }
+    }
+
+    const report = auditIntegrity(barrels.body, measurements.body)
+    mkdirSync(path.dirname(output), { recursive: true })
+    writeFileSync(output, `${JSON.stringify({ baseURL: environment.baseURL, ...report }, null, 2)}\n`)
+    console.log(`${formatIntegritySummary(report)}\n\nJSON report: ${output}`)
+
+    return report.problems.length === 0 ? 0 : 1
+  } finally {
+    await context.dispose()
+  }
+}
+
+main().then((code) => {
+  process.exitCode = code
+}, (error: unknown) => {
+  console.error(error)
+  process.exitCode = 2
+})
@@ -0,0 +1,125 @@
+import { request } from '@playwright/test'
+import dotenv from 'dotenv'
+import { mkdirSync, readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+import { BarrelApi } from '../api/barrel.api'
+import { MeasurementApi } from '../api/measurement.api'
+import { resolveEnvironment } from '../config/environments'
+import {
+  loadDataset, purgeByQrPrefix, purgeManifest, PurgeResult, seedDataset, SeedManifest, validateDataset
+} from '../helpers/dataset.helper'
+
+dotenv.config({ path: path.resolve(__dirname, '..', '.env') })
+
+const usage = `Usage:
+  npm run data:seed -- <file.json|file.csv>... [--manifest <file>]
+  npm run data:purge -- --manifest <file>
+  npm run data:purge -- --qr-prefix <prefix>`
+
+/**
+ * Populates the environment selected by `TEST_ENV` / `BASE_URL` with a dataset for demos and manual QA,
+ * and removes it again. `seed` validates the files against the models before sending anything and writes
+ * the created ids to `--manifest` (default `seed-manifest.json`); `purge` deletes by manifest or by `qr` prefix.
+ * Exits with 1 when the dataset is invalid or a request fails and with 2 on usage or environment errors.
+ */
+async function main(): Promise<number> {
+  const [command, ...args] = process.argv.slice(2)
+  const manifestPath = path.resolve(option(args, '--manifest') ?? 'seed-manifest.json')
+  const qrPrefix = option(args, '--qr-prefix')
+  const environment = resolveEnvironment()
+  if (command !== 'seed' && command !== 'purge') {
+    console.error(usage)
+
+    return 2
+  }
+  if (environment.readOnly) {
+    console.error(`The '${environment.name}' environment is read-only`)
+
+    return 2
+  }
+
+  if (command === 'seed') {
+    const files = args.filter((arg, i) => !arg.startsWith('--') && !args[i - 1]?.startsWith('--'))
+    if (files.length === 0) {
+      console.error(usage)
+
+      return 2
+    }
+    const dataset = loadDataset(files)
+    const problems = validateDataset(dataset)
+    if (problems.length > 0) {
+      console.error(`Nothing was sent, the dataset has ${problems.length} problem(s):\n${problems.map((problem) => `  ${problem}`).join('\n')}`)
+
+      return 1
+    }
+
+    return withApis(environment.baseURL, environment.requestTimeout, async (barrelApi, measurementApi) => {
+      const { manifest, error } = await seedDataset(barrelApi, measurementApi, dataset, environment.baseURL)
+      mkdirSync(path.dirname(manifestPath), { recursive: true })
+      writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`)
+      console.log(`Created ${manifest.barrels.length} barrel(s) and ${manifest.measurements.length} measurement(s) in ${environment.baseURL}`)
+      console.log(`Manifest: ${manifestPath}`)
+      if (error) {
+        console.error(`Stopped: ${error}\nPurge the partial data with: npm run data:purge -- --manifest ${path.relative(process.cwd(), manifestPath)}`)
+
+        return 1
+      }
+
+      return 0
+    })
+  }
+
+  if (qrPrefix === undefined && option(args, '--manifest') === undefined) {
+    console.error(usage)
+
+    return 2
+  }
+  const manifest = qrPrefix === undefined ? JSON.parse(readFileSync(manifestPath, 'utf8')) as SeedManifest : undefined
+  if (manifest && manifest.baseURL !== environment.baseURL) {
+    console.error(`The manifest was created in ${manifest.baseURL}, not in ${environment.baseURL}`)
+
+    return 2
+  }
+
+  return withApis(environment.baseURL, environment.requestTimeout, async (barrelApi, measurementApi) => {
+    const outcome = manifest
+      ? await purgeManifest(barrelApi, measurementApi, manifest)
+      : await purgeByQrPrefix(barrelApi, qrPrefix as string)
+    console.log(formatPurge(outcome))
+
+    return outcome.failed.length === 0 ? 0 : 1
+  })
+}
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name)
+
+  return index === -1 ? undefined : args[index + 1]
+}
+
+async function withApis(
+  baseURL: string,
+  timeout: number,
+  action: (barrelApi: BarrelApi, measurementApi: MeasurementApi) => Promise<number>
+): Promise<number> {
+  const context = await request.newContext({ baseURL, timeout })
+  try {
+    return await action(new BarrelApi(context), new MeasurementApi(context))
+  } finally {
+    await context.dispose()
+  }
+}
+
+function formatPurge({ deleted, missing, failed }: PurgeResult): string {
+  return [
+    `Deleted ${deleted.length} item(s), ${missing.length} already gone, ${failed.length} failed`,
+    ...failed.map((id) => `  failed: ${id}`),
+  ].join('\n')
+}
+
+main().then((code) => {
+  process.exitCode = code
+}, (error: unknown) => {
+  console.error(error)
+  process.exitCode = 2
+})
@@ -0,0 +1,40 @@
+import { spawnSync } from 'child_process'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+
+/**
+ * Checks that cassettes replay whatever the worker count and test order: records the suite with one worker
+ * into a temporary cassette directory against the environment selected by `TEST_ENV` / `BASE_URL`,
+ * then replays it with `--workers` workers (default 3). Other arguments are passed to `playwright test`
+ * in both runs. Exits with 1 when either run fails.
+ *
+ * Usage: `npm run test:replay-check -- [--workers <n>] [playwright test arguments]`
+ */
+function main(): number {
+  const args = process.argv.slice(2)
+  const workersIndex = args.indexOf('--workers')
+  const workers = workersIndex === -1 ? '3' : args.splice(workersIndex, 2)[1]
+  const dir = mkdtempSync(path.join(tmpdir(), 'cassettes-'))
+
+  try {
+    for (const [mode, runWorkers] of [['record', '1'], ['replay', workers]]) {
+      console.log(`Replay check: ${mode} with ${runWorkers} worker(s) into ${dir}`)
+      const run = spawnSync('npx', ['playwright', 'test', `--workers=${runWorkers}`, ...args], {
+        stdio: 'inherit',
+        env: { ...process.env, CASSETTE_MODE: mode, CASSETTE_DIR: dir },
+      })
+      if (run.status !== 0) {
+        console.error(`Replay check: the ${mode} run with ${runWorkers} worker(s) failed`)
+
+        return 1
+      }
+    }
+
+    return 0
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+}
+
+process.exitCode = main()
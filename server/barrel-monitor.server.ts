@@ -0,0 +1,389 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { randomBytes, randomUUID } from 'crypto'
+import { barrelLimits } from '../models/barrel.model'
+import { Limit } from '../models/limits.model'
+import { measurementLimits } from '../models/measurement.model'
+
+/**
+ * In-process stand-in for the Barrel Monitor API.
+ *
+ * Mimics the ASP.NET Core behaviour the suite relies on: the same status codes,
+ * RFC 7807 problem bodies with `errors` keyed by model property or JSON path,
+ * and cascade delete of measurements when their barrel is removed.
+ * State lives in memory and is lost when the server stops.
+ */
+
+const guidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+interface StoredBarrel {
+  id: string,
+  qr: string,
+  rfid: string,
+  nfc: string,
+}
+
+interface StoredMeasurement {
+  id: string,
+  barrelId: string,
+  dirtLevel: number,
+  weight: number,
+}
+
+type FieldKind = 'string' | 'guid' | 'float'
+
+interface FieldRule {
+  /** Property name as serialized in JSON (camelCase). */
+  json: string,
+  /** Property name as used by ASP.NET in `errors` (PascalCase). */
+  model: string,
+  kind: FieldKind,
+  required: boolean,
+  /** Accepted length of a `string` or range of a `float` after rounding to float32, taken from the models. */
+  limit?: Limit,
+}
+
+type ValidationErrors = Record<string, string[]>
+
+const clrTypes: Record<FieldKind, string> = {
+  string: 'System.String',
+  guid: 'System.Guid',
+  float: 'System.Single',
+}
+
+const barrelFields: FieldRule[] = [
+  { json: 'id', model: 'Id', kind: 'guid', required: false },
+  { json: 'qr', model: 'Qr', kind: 'string', required: true, limit: barrelLimits.qr },
+  { json: 'rfid', model: 'Rfid', kind: 'string', required: true, limit: barrelLimits.rfid },
+  { json: 'nfc', model: 'Nfc', kind: 'string', required: true, limit: barrelLimits.nfc },
+]
+
+const measurementFields: FieldRule[] = [
+  { json: 'id', model: 'Id', kind: 'guid', required: false },
+  { json: 'barrelId', model: 'BarrelId', kind: 'guid', required: true },
+  { json: 'dirtLevel', model: 'DirtLevel', kind: 'float', required: true, limit: measurementLimits.dirtLevel },
+  { json: 'weight', model: 'Weight', kind: 'float', required: true, limit: measurementLimits.weight },
+]
+
+/**
+ * ASP.NET builds "required" messages from the display name, which is not always
+ * the property name.
+ */
+const requiredMessages: Record<string, string> = {
+  DirtLevel: 'The Dirtlevel field is required.',
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, readonly body?: object, readonly headers: Record<string, string> = {}) {
+    super(`HTTP ${status}`)
+  }
+}
+
+/**
+ * Creates a new Barrel Monitor stand-in with an empty in-memory dataset.
+ * The returned server is not listening yet.
+ *
+ * @returns {Server} Node HTTP server handling `/barrels` and `/measurements`.
+ */
+export function createBarrelMonitorServer(): Server {
+  const barrels = new Map<string, StoredBarrel>()
+  const measurements = new Map<string, StoredMeasurement>()
+
+  const routes: Record<string, Record<string, (body: string, id?: string) => [number, object?]>> = {
+    barrels: {
+      'GET': () => [200, [...barrels.values()]],
+      'POST': (body) => {
+        const values = bindModel(body, barrelFields, 'barrel')
+        const barrel: StoredBarrel = {
+          id: (values.id as string | undefined) ?? randomUUID(),
+          qr: values.qr as string,
+          rfid: values.rfid as string,
+          nfc: values.nfc as string,
+        }
+        // The API documents no answer for an id in use; inserting a duplicate key fails like any unhandled error
+        if (barrels.has(barrel.id)) {
+          throw new Error(`Duplicate barrel id ${barrel.id}`)
+        }
+        barrels.set(barrel.id, barrel)
+
+        return [201, barrel]
+      },
+    },
+    'barrels/{id}': {
+      'GET': (_, id) => [200, findOrThrow(barrels, id)],
+      'DELETE': (_, id) => {
+        const barrel = findOrThrow(barrels, id)
+        barrels.delete(barrel.id)
+        for (const measurement of [...measurements.values()]) {
+          if (measurement.barrelId === barrel.id) {
+            measurements.delete(measurement.id)
+          }
+        }
+
+        return [204]
+      },
+    },
+    measurements: {
+      'GET': () => [200, [...measurements.values()]],
+      'POST': (body) => {
+        const values = bindModel(body, measurementFields, 'measurement')
+        if (!barrels.has(values.barrelId as string)) {
+          throw new HttpError(404, problem(404, 'Barrel was not found.'))
+        }
+        const measurement: StoredMeasurement = {
+          id: (values.id as string | undefined) ?? randomUUID(),
+          barrelId: values.barrelId as string,
+          dirtLevel: values.dirtLevel as number,
+          weight: values.weight as number,
+        }
+        if (measurements.has(measurement.id)) {
+          throw new Error(`Duplicate measurement id ${measurement.id}`)
+        }
+        measurements.set(measurement.id, measurement)
+
+        return [201, measurement]
+      },
+    },
+    'measurements/{id}': {
+      'GET': (_, id) => [200, findOrThrow(measurements, id)],
+      'DELETE': (_, id) => {
+        measurements.delete(findOrThrow(measurements, id).id)
+
+        return [204]
+      },
+    },
+  }
+
+  return createServer(async (req, res) => {
+    try {
+      const body = await readBody(req)
+      const [resource, id, ...rest] = new URL(req.url ?? '/', 'http://localhost').pathname
+        .split('/')
+        .filter(Boolean)
+        .map(decodePathSegment)
+      const route = routes[id === undefined ? resource : `${resource}/{id}`]
+      if (!route || rest.length > 0) {
+        throw new HttpError(404)
+      }
+      const handler = route[req.method ?? 'GET']
+      if (!handler) {
+        throw new HttpError(405, undefined, { 'Allow': Object.keys(route).join(', ') })
+      }
+      if (req.method === 'POST') {
+        assertJsonContentType(req)
+      }
+      const [status, responseBody] = handler(body, id)
+      send(res, status, responseBody)
+    } catch (error) {
+      if (error instanceof HttpError) {
+        send(res, error.status, error.body, error.headers)
+      } else {
+        send(res, 500, problem(500, 'An error occurred while processing your request.'))
+      }
+    }
+  })
+}
+
+/**
+ * Starts the stand-in on the given port and resolves once it accepts connections.
+ *
+ * @param {number} port - TCP port to listen on.
+ * @returns {Promise<Server>} The listening server; call `close()` to stop it.
+ */
+export async function startBarrelMonitorServer(port: number): Promise<Server> {
+  const server = createBarrelMonitorServer()
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, resolve)
+  })
+
+  return server
+}
+
+/**
+ * Deserializes and validates a request body the way ASP.NET model binding does.
+ * Conversion errors are reported by JSON path and short-circuit validation,
+ * otherwise every missing or invalid property is reported by model name.
+ */
+function bindModel(body: string, fields: FieldRule[], parameter: string): Record<string, unknown> {
+  if (!body.trim()) {
+    throw validationError({ '': ['A non-empty request body is required.'], [parameter]: [`The ${parameter} field is required.`] })
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(body)
+  } catch {
+    throw validationError({
+      '$': [`'${body.trim()[0]}' is an invalid start of a value. ${jsonLocation('$', body)}`],
+      [parameter]: [`The ${parameter} field is required.`],
+    })
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw validationError({
+      '$': [`The JSON value could not be converted to ${parameter}. ${jsonLocation('$', body)}`],
+      [parameter]: [`The ${parameter} field is required.`],
+    })
+  }
+
+  const values: Record<string, unknown> = {}
+  const conversionErrors: ValidationErrors = {}
+  for (const field of fields) {
+    // System.Text.Json web defaults bind property names case-insensitively
+    const key = Object.keys(parsed).reverse().find((name) => name.toLowerCase() === field.json.toLowerCase())
+    const raw = key === undefined ? undefined : (parsed as Record<string, unknown>)[key]
+    const path = `$.${key}`
+    if (raw === undefined || raw === null) {
+      continue
+    }
+    const converted = convert(raw, field.kind)
+    if (converted === undefined) {
+      conversionErrors[path] = [`The JSON value could not be converted to ${clrTypes[field.kind]}. ${jsonLocation(path, body, key)}`]
+    } else {
+      values[field.json] = converted
+    }
+  }
+  if (Object.keys(conversionErrors).length > 0) {
+    throw validationError({ [parameter]: [`The ${parameter} field is required.`], ...conversionErrors })
+  }
+
+  const bound: Record<string, unknown> = {}
+  const errors: ValidationErrors = {}
+  for (const field of fields) {
+    const value = values[field.json]
+    // [Required] rejects empty and whitespace-only strings
+    if (value === undefined || (typeof value === 'string' && value.trim() === '')) {
+      if (field.required) {
+        errors[field.model] = [requiredMessages[field.model] ?? `The ${field.model} field is required.`]
+      }
+    } else if (field.kind === 'string' && field.limit && (value as string).length > field.limit.max) {
+      errors[field.model] = ['Input too long']
+    } else if (field.kind === 'float' && field.limit && belowRange(value as number, field.limit)) {
+      errors[field.model] = [`${field.model} must be positive number`]
+    } else if (field.kind === 'float' && field.limit && Math.fround(value as number) > field.limit.max) {
+      errors[field.model] = [`${field.model} must be at most ${field.limit.max}`]
+    } else {
+      bound[field.json] = value
+    }
+  }
+  if (Object.keys(errors).length > 0) {
+    throw validationError(errors)
+  }
+
+  return bound
+}
+
+function belowRange(value: number, { min, minExclusive }: Limit): boolean {
+  return minExclusive ? value <= min : value < min
+}
+
+/**
+ * Converts a raw JSON value to the CLR type of a field.
+ * Returns `undefined` when System.Text.Json would reject the value;
+ * an empty string is kept for non-string kinds so it is reported as missing.
+ */
+function convert(raw: unknown, kind: FieldKind): unknown {
+  switch (kind) {
+    case 'string':
+      return typeof raw === 'string' ? raw : undefined
+    case 'guid':
+      if (raw === '') {
+        return raw
+      }
+
+      return typeof raw === 'string' && guidPattern.test(raw) ? raw.toLowerCase() : undefined
+    case 'float': {
+      // Web defaults allow numbers encoded as JSON strings
+      const value = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : NaN
+      if (!Number.isFinite(value) || !Number.isFinite(Math.fround(value))) {
+        return undefined
+      }
+
+      return toFloat32(value)
+    }
+  }
+}
+
+/**
+ * Rounds a number to float32 and returns its shortest decimal form,
+ * matching how .NET serializes `float` properties.
+ */
+function toFloat32(value: number): number {
+  const rounded = Math.fround(value)
+  for (let precision = 1; precision < 17; precision++) {
+    const candidate = Number(rounded.toPrecision(precision))
+    if (Math.fround(candidate) === rounded) {
+      return candidate
+    }
+  }
+
+  return rounded
+}
+
+function jsonLocation(path: string, body: string, key?: string): string {
+  const position = key === undefined ? 0 : Math.max(body.indexOf(`"${key}"`), 0) + key.length + 3
+
+  return `Path: ${path} | LineNumber: 0 | BytePositionInLine: ${position}.`
+}
+
+/**
+ * Kestrel leaves malformed percent-encoding in a path segment as it is instead of rejecting the request.
+ */
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+function findOrThrow<T>(store: Map<string, T>, id?: string): T {
+  const item = id === undefined ? undefined : store.get(id.toLowerCase())
+  if (!item) {
+    throw new HttpError(404, problem(404, 'Not Found'))
+  }
+
+  return item
+}
+
+function assertJsonContentType(req: IncomingMessage): void {
+  const contentType = (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase()
+  if (contentType !== 'application/json' && !/^application\/[\w.-]+\+json$/.test(contentType)) {
+    throw new HttpError(415, problem(415, 'Unsupported Media Type'))
+  }
+}
+
+const problemTypes: Record<number, string> = {
+  400: 'https://tools.ietf.org/html/rfc9110#section-15.5.1',
+  404: 'https://tools.ietf.org/html/rfc9110#section-15.5.5',
+  415: 'https://tools.ietf.org/html/rfc9110#section-15.5.16',
+  500: 'https://tools.ietf.org/html/rfc9110#section-15.6.1',
+}
+
+function problem(status: number, title: string, errors?: ValidationErrors): object {
+  return {
+    type: problemTypes[status],
+    title,
+    status,
+    ...(errors ? { errors } : {}),
+    traceId: `00-${randomBytes(16).toString('hex')}-${randomBytes(8).toString('hex')}-00`,
+  }
+}
+
+function validationError(errors: ValidationErrors): HttpError {
+  return new HttpError(400, problem(400, 'One or more validation errors occurred.', errors))
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+function send(res: ServerResponse, status: number, body?: object, headers: Record<string, string> = {}): void {
+  const contentType = status >= 400 ? 'application/problem+json' : 'application/json'
+  res.writeHead(status, body === undefined ? headers : { ...headers, 'Content-Type': `${contentType}; charset=utf-8` })
+  res.end(body === undefined ? undefined : JSON.stringify(body))
+}
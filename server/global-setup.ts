@@ -0,0 +1,72 @@
+import { FullConfig } from '@playwright/test'
+import { randomInt } from 'crypto'
+import { existsSync } from 'fs'
+import { startBarrelMonitorServer } from './barrel-monitor.server'
+import { ReplayServer, startReplayServer } from './replay.server'
+import { cassetteDir, cassetteMode, loadCassettes } from '../helpers/cassette.helper'
+
+const localHosts = ['localhost', '127.0.0.1', '[::1]']
+
+/**
+ * Checks whether the given base URL points at the local stand-in server.
+ *
+ * @param {string | undefined} baseUrl - Value of `BASE_URL`.
+ * @returns {boolean} `true` for an `http` URL on a loopback host.
+ */
+export function isLocalBaseUrl(baseUrl: string | undefined): boolean {
+  if (!baseUrl) {
+    return false
+  }
+  const url = new URL(baseUrl)
+
+  return url.protocol === 'http:' && localHosts.includes(url.hostname)
+}
+
+/**
+ * Picks the test data seed of the run unless `TEST_SEED` is set.
+ * Starts the Barrel Monitor stand-in when `BASE_URL` points at a loopback host,
+ * so the suite can run without network access, or the replay server when `CASSETTE_MODE=replay`.
+ * The server runs inside the Playwright runner process and is stopped by the returned teardown.
+ */
+export default async function globalSetup(config: FullConfig): Promise<(() => Promise<void>) | undefined> {
+  // Workers inherit the environment of the runner, so they all derive their per-test seeds from this one.
+  // Recording and replay need the same test data, so cassettes default to a fixed seed.
+  process.env['TEST_SEED'] ??= cassetteMode === 'off' ? String(randomInt(2 ** 31)) : '0'
+  // stderr keeps machine-readable reporter output on stdout (e.g. `--reporter=json > out.json`) intact
+  process.stderr.write(`Test data seed: ${process.env['TEST_SEED']} (rerun the whole run with TEST_SEED=${process.env['TEST_SEED']})\n`)
+
+  const baseUrl = config.projects[0]?.use.baseURL
+  if (cassetteMode === 'replay') {
+    return startReplay(baseUrl as string)
+  }
+  if (!isLocalBaseUrl(baseUrl)) {
+    return undefined
+  }
+
+  const url = new URL(baseUrl as string)
+  const server = await startBarrelMonitorServer(Number(url.port || 80))
+
+  return () => new Promise<void>((resolve, reject) => server.close((error) => error ? reject(error) : resolve()))
+}
+
+async function startReplay(baseUrl: string): Promise<() => Promise<void>> {
+  if (!existsSync(cassetteDir)) {
+    throw new Error(`No cassettes in ${cassetteDir}; record them first with CASSETTE_MODE=record`)
+  }
+  const replay = await startReplayServer(Number(new URL(baseUrl).port), loadCassettes())
+
+  return async () => {
+    reportMisses(replay)
+    await new Promise<void>((resolve, reject) => replay.server.close((error) => error ? reject(error) : resolve()))
+  }
+}
+
+function reportMisses({ misses }: ReplayServer): void {
+  if (misses.length === 0) {
+    process.stderr.write('Replay: every request was answered from the cassettes\n')
+
+    return
+  }
+  const lines = misses.map(({ cassette, request }) => `  ${cassette}: ${request}`)
+  process.stderr.write(`Replay: ${misses.length} request(s) without recording:\n${lines.join('\n')}\n`)
+}
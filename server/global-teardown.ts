@@ -0,0 +1,13 @@
+import { FullConfig } from '@playwright/test'
+import { loadNotRetried } from '../helpers/failure-classification.helper'
+
+/**
+ * Fails the run when the retry of a test was skipped because its previous attempt failed with a class
+ * a retry cannot fix: Playwright counts such a test as flaky, which would let the run pass.
+ */
+export default function globalTeardown(config: FullConfig): void {
+  const notRetried = config.projects.flatMap(({ outputDir }) => loadNotRetried(outputDir))
+  if (notRetried.length > 0) {
+    throw new Error(`${notRetried.length} failed test(s) were not retried:\n${notRetried.map((title) => `  ${title}`).join('\n')}`)
+  }
+}
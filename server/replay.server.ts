@@ -0,0 +1,93 @@
+import { createServer, IncomingMessage, Server } from 'http'
+import { Cassette, cassetteHeader, CassetteEntry, cassetteRetryHeader, replayMissHeader, requestKey } from '../helpers/cassette.helper'
+
+/**
+ * Replay server answering the suite from recorded cassettes instead of the Barrel Monitor API.
+ *
+ * Every request names its cassette in the `x-cassette` header and is matched on method,
+ * path with query and normalized body. Recordings are handed out in order, so repeated
+ * identical requests get the responses recorded for them; once they are used up, the last
+ * one is repeated, and a retry of a test starts from the first recording again.
+ * Requests without a recording are answered with `501` and collected as misses.
+ */
+
+/**
+ * A request the replay server could not answer from the cassettes.
+ */
+export interface ReplayMiss {
+  cassette: string,
+  request: string,
+}
+
+export interface ReplayServer {
+  server: Server,
+  misses: ReplayMiss[],
+}
+
+/**
+ * Headers that describe the recorded connection rather than the response.
+ */
+const connectionHeaders = ['content-length', 'transfer-encoding', 'connection', 'keep-alive', 'date']
+
+/**
+ * Creates the replay server without starting it.
+ *
+ * @param {Map<string, Cassette>} cassettes - Cassettes by name, see `loadCassettes`.
+ * @returns {ReplayServer} Server and the list its misses are collected in.
+ */
+export function createReplayServer(cassettes: Map<string, Cassette>): ReplayServer {
+  const misses: ReplayMiss[] = []
+  const used = new Map<string, Set<CassetteEntry>>()
+
+  const server = createServer(async (req, res) => {
+    const body = await readBody(req)
+    const name = String(req.headers[cassetteHeader] ?? '')
+    const key = requestKey(req.method ?? 'GET', req.url ?? '/', body)
+    const candidates = (cassettes.get(name)?.log.entries ?? []).filter(({ request }) =>
+      requestKey(request.method, request.url, request.postData?.text) === key)
+    const run = `${name} ${req.headers[cassetteRetryHeader] ?? 0}`
+    const usedInRun = used.get(run) ?? new Set<CassetteEntry>()
+    used.set(run, usedInRun)
+    const entry = candidates.find((candidate) => !usedInRun.has(candidate)) ?? candidates[candidates.length - 1]
+
+    if (!entry) {
+      misses.push({ cassette: name || '(no cassette)', request: key.trim() })
+      res.writeHead(501, { 'Content-Type': 'application/problem+json; charset=utf-8', [replayMissHeader]: '1' })
+      res.end(JSON.stringify({ title: 'No recording for this request', status: 501, detail: key.trim() }))
+
+      return
+    }
+    usedInRun.add(entry)
+    const headers = entry.response.headers.filter(({ name: headerName }) => !connectionHeaders.includes(headerName.toLowerCase()))
+    res.writeHead(entry.response.status, entry.response.statusText, headers.flatMap(({ name: headerName, value }) => [headerName, value]))
+    res.end(req.method === 'HEAD' ? undefined : entry.response.content.text)
+  })
+
+  return { server, misses }
+}
+
+/**
+ * Starts the replay server on the given port.
+ *
+ * @param {number} port - Port to listen on.
+ * @param {Map<string, Cassette>} cassettes - Cassettes by name.
+ * @returns {Promise<ReplayServer>} Listening server and its misses.
+ */
+export async function startReplayServer(port: number, cassettes: Map<string, Cassette>): Promise<ReplayServer> {
+  const replay = createReplayServer(cassettes)
+  await new Promise<void>((resolve, reject) => {
+    replay.server.once('error', reject)
+    replay.server.listen(port, resolve)
+  })
+
+  return replay
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+
+  return Buffer.concat(chunks).toString('utf8')
+}
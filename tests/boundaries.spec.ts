@@ -0,0 +1,59 @@
+import { test, expect } from '../fixtures/api.fixture'
+import { boundaryTitle, float32Boundaries, lengthBoundaries } from '../helpers/boundary.helper'
+import { buildBarrel } from '../helpers/barrel.helper'
+import { faker } from '@faker-js/faker'
+import { describeSeed } from '../helpers/seed.helper'
+import { buildMeasurement } from '../helpers/measurement.helper'
+import { checkRoundTrip, isErrorKeyForField } from '../helpers/fuzz.helper'
+import { barrelLimits } from '../models/barrel.model'
+import { measurementLimits } from '../models/measurement.model'
+
+/**
+ * Boundary values generated from the limits declared in the models, so changing a limit
+ * changes the schema and these tests together. Valid values must round-trip, invalid ones
+ * must be rejected with an error for the broken field.
+ */
+test.describe('Boundary values - POST /barrels', { tag: ['@validation', '@destructive'] }, () => {
+  for (const boundary of lengthBoundaries(barrelLimits)) {
+    test(boundaryTitle(boundary), async ({ barrelApi }) => {
+      const barrel = buildBarrel({ [boundary.field]: boundary.value })
+      const result = await barrelApi.create(barrel)
+
+      if (boundary.valid) {
+        expect(result).toBeValidBarrel(barrel)
+      } else {
+        expect(result).toBeProblemDetails(400)
+        expect(Object.keys(result.error.errors ?? {}).filter((key) => isErrorKeyForField(key, boundary.field))).toHaveLength(1)
+      }
+    })
+  }
+})
+
+test.describe('Boundary values - POST /measurements', { tag: ['@validation', '@destructive'] }, () => {
+  let barrelId: string
+
+  /**
+   * Measurements have to reference an existing barrel, so only the boundary field decides the outcome.
+   */
+  test.beforeAll(async ({ workerBarrelApi }, testInfo) => {
+    faker.seed(describeSeed(testInfo))
+    const result = await workerBarrelApi.create(buildBarrel())
+    expect(result.status).toBe(201)
+    barrelId = result.body.id as string
+  })
+
+  for (const boundary of float32Boundaries(measurementLimits)) {
+    test(boundaryTitle(boundary), async ({ measurementApi }) => {
+      const measurement = buildMeasurement(barrelId, { [boundary.field]: boundary.value })
+      const result = await measurementApi.create(measurement)
+
+      if (boundary.valid) {
+        expect(result.status).toBe(201)
+        checkRoundTrip({ ...measurement }, result.body)
+      } else {
+        expect(result).toBeProblemDetails(400)
+        expect(Object.keys(result.error.errors ?? {}).filter((key) => isErrorKeyForField(key, boundary.field))).toHaveLength(1)
+      }
+    })
+  }
+})
@@ -0,0 +1,93 @@
+import { AddressInfo } from 'net'
+import { test, expect } from '../fixtures/api.fixture'
+import { Cassette, CassetteEntry, cassetteHeader, replayMissHeader } from '../helpers/cassette.helper'
+import { createReplayServer, ReplayServer } from '../server/replay.server'
+
+function entry(method: string, url: string, body: string | undefined, status: number, response: string): CassetteEntry {
+  return {
+    startedDateTime: '2025-01-01T00:00:00.000Z',
+    time: 0,
+    request: {
+      method,
+      url,
+      headers: [],
+      ...(body === undefined ? {} : { postData: { mimeType: 'application/json', text: body } }),
+    },
+    response: {
+      status,
+      statusText: '',
+      headers: [{ name: 'Content-Type', value: 'application/json; charset=utf-8' }],
+      content: { mimeType: 'application/json; charset=utf-8', text: response },
+    },
+  }
+}
+
+const cassette: Cassette = {
+  log: {
+    version: '1.2',
+    creator: { name: 'barrel-monitor-api-tests', version: '1.0.0' },
+    entries: [
+      entry('POST', 'https://api.example/barrels', '{"qr":"q","rfid":"r","nfc":"n"}', 201, '{"id":"1"}'),
+      entry('GET', 'https://api.example/barrels', undefined, 200, '[]'),
+      entry('GET', 'https://api.example/barrels', undefined, 200, '[{"id":"1"}]'),
+    ],
+  },
+}
+
+/**
+ * Guards the replay server used by `CASSETTE_MODE=replay`: matching on method, path and
+ * normalized body, ordered answers to repeated requests and reporting of unrecorded requests.
+ */
+test.describe('Cassette replay', { tag: '@crud' }, () => {
+  let replay: ReplayServer
+  let baseURL: string
+
+  test.beforeEach(async () => {
+    replay = createReplayServer(new Map([['replay.spec.ts/test', cassette]]))
+    await new Promise<void>((resolve) => replay.server.listen(0, resolve))
+    baseURL = `http://localhost:${(replay.server.address() as AddressInfo).port}`
+  })
+
+  test.afterEach(async () => {
+    await new Promise((resolve) => replay.server.close(resolve))
+  })
+
+  test('Requests are matched on method, path and normalized body', async ({ playwright }) => {
+    const context = await playwright.request.newContext({ baseURL, extraHTTPHeaders: { [cassetteHeader]: 'replay.spec.ts/test' } })
+
+    const created = await context.post('/barrels', { data: '{ "nfc": "n", "rfid": "r", "qr": "q" }' })
+
+    expect(created.status()).toBe(201)
+    expect(await created.json()).toEqual({ id: '1' })
+    expect(replay.misses).toEqual([])
+    await context.dispose()
+  })
+
+  test('Repeated requests get their recordings in order', async ({ playwright }) => {
+    const context = await playwright.request.newContext({ baseURL, extraHTTPHeaders: { [cassetteHeader]: 'replay.spec.ts/test' } })
+
+    const bodies = []
+    for (let i = 0; i < 3; i++) {
+      bodies.push(await (await context.get('/barrels')).json())
+    }
+
+    expect(bodies, 'the last recording is repeated once all are used').toEqual([[], [{ id: '1' }], [{ id: '1' }]])
+    await context.dispose()
+  })
+
+  test('Requests without recording are reported', async ({ playwright }) => {
+    const context = await playwright.request.newContext({ baseURL, extraHTTPHeaders: { [cassetteHeader]: 'replay.spec.ts/test' } })
+
+    const differentBody = await context.post('/barrels', { data: { qr: 'other', rfid: 'r', nfc: 'n' } })
+    const unknownCassette = await context.get('/barrels', { headers: { [cassetteHeader]: 'replay.spec.ts/unknown' } })
+
+    expect(differentBody.status()).toBe(501)
+    expect(differentBody.headers()[replayMissHeader]).toBe('1')
+    expect(unknownCassette.status()).toBe(501)
+    expect(replay.misses).toEqual([
+      { cassette: 'replay.spec.ts/test', request: 'POST /barrels {"nfc":"n","qr":"other","rfid":"r"}' },
+      { cassette: 'replay.spec.ts/unknown', request: 'GET /barrels' },
+    ])
+    await context.dispose()
+  })
+})
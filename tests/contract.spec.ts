@@ -0,0 +1,86 @@
+import { z } from 'zod/v4'
+import { test, expect } from '../fixtures/api.fixture'
+import {
+  compareModelWithContract, contractDeviationAnnotation, unacknowledgedViolations
+} from '../helpers/contract.helper'
+import { barrelObject } from '../models/barrel.model'
+import { measurementObject } from '../models/measurement.model'
+import { float32Schema } from '../models/numeric-rules.model'
+
+/**
+ * Cross-checks the hand-written zod models against the OpenAPI document
+ * the suite validates every response with.
+ */
+test.describe('OpenAPI contract - models', { tag: '@validation' }, () => {
+
+  /**
+   * `barrelObject` must describe the same properties as the `Barrel` schema.
+   */
+  test('Barrel model matches OpenAPI schema', async ({ openApiContract }) => {
+    expect(compareModelWithContract(barrelObject, openApiContract, 'Barrel')).toEqual([])
+  })
+
+  /**
+   * `measurementObject` must describe the same properties as the `Measurement` schema.
+   */
+  test('Measurement model matches OpenAPI schema', async ({ openApiContract }) => {
+    expect(compareModelWithContract(measurementObject, openApiContract, 'Measurement')).toEqual([])
+  })
+
+  test('Differing lengths and ranges are reported', async ({ openApiContract }) => {
+    const barrel = barrelObject.extend({ qr: z.string().min(1).max(64) })
+    const measurement = measurementObject.extend({ weight: float32Schema({ min: 0, max: 1000, unit: 'kg' }) })
+
+    expect(compareModelWithContract(barrel, openApiContract, 'Barrel')).toEqual([
+      'Barrel.qr: maxLength is 64 in the zod model but 255 in the OpenAPI document',
+    ])
+    expect(compareModelWithContract(measurement, openApiContract, 'Measurement')).toEqual([
+      'Measurement.weight: minimum is 0 in the zod model but unset in the OpenAPI document',
+      'Measurement.weight: exclusiveMinimum is unset in the zod model but 0 in the OpenAPI document',
+      'Measurement.weight: maximum is 1000 in the zod model but 3.4028235e+38 in the OpenAPI document',
+    ])
+  })
+})
+
+test.describe('OpenAPI contract - validator', { tag: '@validation' }, () => {
+
+  test('A malformed response body is reported with its paths', async ({ openApiContract }) => {
+    const violations = openApiContract.validate('GET', '/barrels/1', 200, 'application/json', { id: 'not-a-uuid', qr: '', rfid: 7 })
+
+    expect(violations.map(({ operation, status, path }) => `${operation} ${status} ${path}`).sort()).toEqual([
+      'GET /barrels/{id} 200 $.id',
+      'GET /barrels/{id} 200 $.nfc',
+      'GET /barrels/{id} 200 $.qr',
+      'GET /barrels/{id} 200 $.rfid',
+    ])
+  })
+
+  test('An undeclared status or content type is reported', async ({ openApiContract }) => {
+    expect(openApiContract.validate('GET', '/barrels', 500, 'text/html', '<h1>Error</h1>')).toEqual([
+      expect.objectContaining({ operation: 'GET /barrels', status: 500, path: 'status' }),
+    ])
+    expect(openApiContract.validate('GET', '/barrels', 200, 'text/html', '<h1>OK</h1>')).toEqual([
+      expect.objectContaining({ operation: 'GET /barrels', status: 200, path: 'content-type' }),
+    ])
+  })
+
+  test('A non-conforming request body is reported only when the API accepted it', async ({ openApiContract }) => {
+    const body = { qr: '', rfid: 'r', nfc: 'n' }
+
+    expect(openApiContract.validateRequest('POST', '/barrels', 201, body)).toEqual([
+      expect.objectContaining({ operation: 'POST /barrels', status: 201, path: 'request $.qr' }),
+    ])
+    expect(openApiContract.validateRequest('POST', '/barrels', 201, '{"qr": "q"')).toEqual([
+      expect.objectContaining({ path: 'request $', message: 'body is not valid JSON' }),
+    ])
+    expect(openApiContract.validateRequest('POST', '/barrels', 400, body)).toEqual([])
+    expect(openApiContract.validateRequest('POST', '/barrels', 201, JSON.stringify({ qr: 'q', rfid: 'r', nfc: 'n' }))).toEqual([])
+  })
+
+  test('Violations acknowledged as contract deviations do not count', async ({ openApiContract }) => {
+    const violations = openApiContract.validateRequest('POST', '/measurements', 201, { barrelId: 'x', dirtLevel: '1', weight: 2 })
+    const annotations = [{ type: contractDeviationAnnotation, description: 'request $.dirtLevel' }]
+
+    expect(unacknowledgedViolations(violations, annotations).map(({ path }) => path)).toEqual(['request $.barrelId'])
+  })
+})
@@ -0,0 +1,112 @@
+import { faker } from '@faker-js/faker'
+import path from 'path'
+import { test, expect } from '../fixtures/api.fixture'
+import { buildBarrel } from '../helpers/barrel.helper'
+import { Dataset, loadDataset, parseCsv, purgeByQrPrefix, purgeManifest, seedDataset, validateDataset } from '../helpers/dataset.helper'
+import { buildMeasurement } from '../helpers/measurement.helper'
+
+const datasets = path.resolve(__dirname, '..', 'datasets')
+
+/**
+ * Builds a valid dataset whose barrels have `qr` values starting with the prefix.
+ */
+function buildDataset(prefix: string): Dataset {
+  const barrels = ['a', 'b'].map((alias) => ({ alias, ...buildBarrel({ qr: `${prefix}${alias}` }) }))
+  const measurements = ['a', 'a', 'b'].map((barrel) => {
+    const { dirtLevel, weight } = buildMeasurement('')
+
+    return { barrel, dirtLevel, weight }
+  })
+
+  return { barrels, measurements }
+}
+
+test.describe('Dataset files', { tag: '@validation' }, () => {
+
+  test('CSV fields may be quoted, contain commas, quotes and CRLF line ends', () => {
+    const rows = parseCsv('alias,qr\r\n"a,1","say ""hi"""\r\nb,plain\r\n\r\n')
+
+    expect(rows).toEqual([{ alias: 'a,1', qr: 'say "hi"' }, { alias: 'b', qr: 'plain' }])
+  })
+
+  test('The sample datasets load and are valid', () => {
+    const dataset = loadDataset([
+      path.join(datasets, 'demo.json'),
+      path.join(datasets, 'demo-barrels.csv'),
+      path.join(datasets, 'demo-measurements.csv'),
+    ])
+
+    expect(dataset.barrels.length).toBeGreaterThan(0)
+    expect(dataset.measurements.length).toBeGreaterThan(0)
+    expect(dataset.measurements.every(({ dirtLevel, weight }) => typeof dirtLevel === 'number' && typeof weight === 'number')).toBe(true)
+    expect(validateDataset(dataset)).toEqual([])
+  })
+
+  test('Invalid fields, aliases, references and duplicate tags are reported', () => {
+    const dataset: Dataset = {
+      barrels: [
+        { alias: 'a', qr: '', rfid: 'r1', nfc: 'n1' },
+        { alias: 'a', qr: 'q2', rfid: 'r1', nfc: 'n2' },
+      ],
+      measurements: [{ barrel: 'x', dirtLevel: 101, weight: 10 }],
+    }
+
+    expect(validateDataset(dataset)).toEqual([
+      expect.stringMatching(/^barrels\[0\] \(a\): \$\.qr: /),
+      'barrels[1] (a): alias is used by an earlier barrel',
+      'rfid "r1" is used by barrels a and a',
+      'measurements[0]: refers to unknown barrel "x"',
+      expect.stringMatching(/^measurements\[0\]: \$\.dirtLevel: /),
+    ])
+  })
+})
+
+test.describe('Dataset seeding and purge', { tag: ['@validation', '@destructive'] }, () => {
+
+  test('A seeded dataset is purged by its manifest', async ({ barrelApi, measurementApi, baseURL }) => {
+    const dataset = buildDataset(`seed-${faker.string.alphanumeric(10)}-`)
+
+    const { manifest, error } = await seedDataset(barrelApi, measurementApi, dataset, baseURL as string)
+
+    expect(error).toBeUndefined()
+    expect(manifest.barrels.map(({ alias }) => alias)).toEqual(['a', 'b'])
+    expect(manifest.measurements.map(({ barrel }) => barrel)).toEqual(['a', 'a', 'b'])
+    const [first] = manifest.measurements
+    expect(await measurementApi.get(first.id)).toBeValidMeasurement({ barrelId: manifest.barrels[0].id })
+
+    const outcome = await purgeManifest(barrelApi, measurementApi, manifest)
+
+    expect(outcome.failed).toEqual([])
+    expect([...outcome.deleted, ...outcome.missing].sort()).toEqual([...manifest.barrels, ...manifest.measurements].map(({ id }) => id).sort())
+    for (const { id } of manifest.barrels) {
+      expect((await barrelApi.get(id)).status).toBe(404)
+    }
+  })
+
+  test('Seeding stops at the first rejected barrel and keeps what was created', async ({ barrelApi, measurementApi, baseURL }) => {
+    const dataset = buildDataset(`seed-${faker.string.alphanumeric(10)}-`)
+    dataset.barrels[1].qr = ''
+
+    const { manifest, error } = await seedDataset(barrelApi, measurementApi, dataset, baseURL as string)
+
+    expect(error).toMatch(/^Barrel b: POST \/barrels answered 400/)
+    expect(manifest.barrels.map(({ alias }) => alias)).toEqual(['a'])
+    expect(manifest.measurements).toEqual([])
+  })
+
+  test('Purging by qr prefix deletes only the matching barrels', async ({ barrelApi, measurementApi, baseURL }) => {
+    const prefix = `seed-${faker.string.alphanumeric(10)}-`
+    const { manifest } = await seedDataset(barrelApi, measurementApi, buildDataset(prefix), baseURL as string)
+    const other = await barrelApi.create(buildBarrel())
+    expect(other.status).toBe(201)
+
+    const outcome = await purgeByQrPrefix(barrelApi, prefix)
+
+    expect(outcome.deleted.sort()).toEqual(manifest.barrels.map(({ id }) => id).sort())
+    expect(await barrelApi.get(other.body.id as string)).toBeValidBarrel(other.body)
+  })
+
+  test('An empty qr prefix is refused', async ({ barrelApi }) => {
+    await expect(purgeByQrPrefix(barrelApi, '')).rejects.toThrow('empty qr prefix')
+  })
+})
@@ -0,0 +1,47 @@
+import { TestInfo } from '@playwright/test'
+import { test, expect } from '../fixtures/api.fixture'
+import { classifyFailure, loadNotRetried, saveNotRetried } from '../helpers/failure-classification.helper'
+import { findFlakyTests, recordTestRun, RunOutcome, TestHistory } from '../helpers/test-history.helper'
+
+function historyOf(outcomes: RunOutcome[]): TestHistory {
+  const history: TestHistory = { tests: {} }
+  for (const outcome of outcomes) {
+    recordTestRun(history, 'id', 'Barrels › Delete barrel', { startedAt: '2025-01-01T00:00:00.000Z', outcome, attempts: 1, failureClasses: [] }, 5)
+  }
+
+  return history
+}
+
+/**
+ * Guards the failure classes that decide about retries and the flaky-test detection of the history.
+ */
+test.describe('Failure classification and test history', { tag: '@validation' }, () => {
+
+  test('Failures are classified by their cause', () => {
+    const connectionRefused = { message: 'apiRequestContext.fetch: connect ECONNREFUSED 127.0.0.1:5099' }
+    const mismatch = { message: 'expect(received).toBe(expected)\n\nExpected: 201\nReceived: 503' }
+
+    expect(classifyFailure([connectionRefused], false, [])).toBe('network')
+    expect(classifyFailure([mismatch], true, [])).toBe('network')
+    expect(classifyFailure([mismatch], false, ['POST /barrels 503'])).toBe('server-error')
+    expect(classifyFailure([mismatch], false, [])).toBe('assertion')
+  })
+
+  test('Skipped retries are listed for the global teardown', async ({}, testInfo) => {
+    const outputDir = testInfo.outputPath('project')
+    const skippedRetry = { testId: 'id', titlePath: ['barrels.spec.ts', 'Create barrel'], project: { outputDir } } as unknown as TestInfo
+
+    expect(loadNotRetried(outputDir)).toEqual([])
+    saveNotRetried(skippedRetry, 'assertion')
+
+    expect(loadNotRetried(outputDir)).toEqual(['barrels.spec.ts › Create barrel (assertion)'])
+  })
+
+  test('Tests are flaky when they pass on a retry or flip more than once', () => {
+    expect(findFlakyTests(historyOf(['passed', 'passed', 'failed', 'failed'])), 'a regression is not flaky').toEqual([])
+    expect(findFlakyTests(historyOf(['passed', 'failed', 'passed']))).toMatchObject([{ flips: 2, flakyRuns: 0, trend: '✓✗✓' }])
+    expect(findFlakyTests(historyOf(['passed', 'flaky']))).toMatchObject([{ flips: 0, flakyRuns: 1, trend: '✓~' }])
+    expect(historyOf(['failed', 'passed', 'passed', 'passed', 'passed', 'passed']).tests['id'].runs, 'only the newest runs are kept')
+      .toHaveLength(5)
+  })
+})
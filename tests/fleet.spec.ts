@@ -0,0 +1,46 @@
+import { test, expect } from '../fixtures/api.fixture'
+import {
+  checkFleetListing, defaultFleetProfile, fleetSeed, simulateFleet, simulateHistory
+} from '../helpers/fleet-simulator.helper'
+import { en, Faker } from '@faker-js/faker'
+
+/**
+ * Long-scenario regression test: a fleet of barrels reports realistic measurement histories
+ * and the listing must return every reading of every barrel unchanged.
+ * Reproduce a run with `FLEET_SEED=<seed>`; `FLEET_SIZE` and `FLEET_READINGS` scale the scenario.
+ */
+test.describe('Fleet simulation', { tag: '@crud' }, () => {
+
+  /**
+   * Guards the simulator itself: readings stay within the physical limits of the profile.
+   */
+  test('History follows the fill, drain and contamination curves', () => {
+    const profile = defaultFleetProfile
+    const history = simulateHistory(profile, 'b4f0c3d2-6a51-4b4e-9f0e-2a7d8c1e5f60', new Faker({ locale: en, seed: 1 }))
+    const weights = history.map(({ weight }) => weight)
+
+    expect(history).toHaveLength(profile.readings)
+    expect(Math.min(...weights)).toBeGreaterThanOrEqual(profile.tare * (1 - profile.noise))
+    expect(Math.max(...weights)).toBeLessThanOrEqual((profile.tare + profile.capacity) * (1 + profile.noise))
+    expect(Math.max(...weights) - Math.min(...weights), 'barrel is filled and drained').toBeGreaterThan(profile.capacity / 2)
+    for (const { dirtLevel } of history) {
+      expect(dirtLevel).toBeGreaterThanOrEqual(0)
+      expect(dirtLevel).toBeLessThanOrEqual(profile.contamination.max)
+    }
+  })
+
+  /**
+   * Posts the histories of the whole fleet and compares the listing per barrel.
+   */
+  test('Listing holds the history of every barrel', { tag: '@destructive' }, async ({ barrelApi, measurementApi }, testInfo) => {
+    test.slow()
+    const seed = fleetSeed(testInfo)
+    testInfo.annotations.push({ type: 'fleet-seed', description: String(seed) })
+
+    const fleet = await simulateFleet(barrelApi, measurementApi, seed)
+    const listing = await measurementApi.list()
+
+    expect(listing.status).toBe(200)
+    checkFleetListing(listing.body, fleet)
+  })
+})
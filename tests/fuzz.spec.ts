@@ -0,0 +1,112 @@
+import fc from 'fast-check'
+import { test, expect } from '../fixtures/api.fixture'
+import {
+  checkRoundTrip, describeFields, fuzzParameters, invalidPayload, isErrorKeyForField, validPayload
+} from '../helpers/fuzz.helper'
+import { buildBarrel } from '../helpers/barrel.helper'
+import { faker } from '@faker-js/faker'
+import { describeSeed } from '../helpers/seed.helper'
+import { barrelObject } from '../models/barrel.model'
+import { measurementObject } from '../models/measurement.model'
+
+/**
+ * Property-based tests for POST endpoints. Payloads are derived from the zod models,
+ * so every constraint declared there is exercised from both sides.
+ * Reproduce a failure with `FUZZ_SEED=<seed>`; `FUZZ_RUNS` sets the iteration count.
+ */
+test.describe('Fuzzing - POST /barrels', { tag: ['@validation', '@destructive'] }, () => {
+  const fields = describeFields(barrelObject)
+
+  /**
+   * Any payload valid per `barrelObject` is created and read back unchanged.
+   */
+  test('Valid barrels are created and round-trip', async ({ barrelApi }, testInfo) => {
+    test.slow()
+    const parameters = fuzzParameters(testInfo)
+    testInfo.annotations.push({ type: 'fuzz-seed', description: String(parameters.seed) })
+
+    await fc.assert(fc.asyncProperty(validPayload(barrelObject), async (payload) => {
+      const created = await barrelApi.create(payload)
+      expect(created.status).toBe(201)
+      expect(created).toBeValidBarrel()
+      checkRoundTrip(payload, created.body)
+
+      const fetched = await barrelApi.get(created.body.id as string)
+      expect(fetched.status).toBe(200)
+      expect(fetched.body).toStrictEqual(created.body)
+    }), parameters)
+  })
+
+  /**
+   * A payload with exactly one broken property is rejected with an error for that property only.
+   */
+  test('Invalid barrels are rejected for the broken field', async ({ barrelApi }, testInfo) => {
+    test.slow()
+    const parameters = fuzzParameters(testInfo)
+    testInfo.annotations.push({ type: 'fuzz-seed', description: String(parameters.seed) })
+
+    await fc.assert(fc.asyncProperty(invalidPayload(barrelObject), async ({ payload, field }) => {
+      const result = await barrelApi.create(payload)
+      expect(result).toBeProblemDetails(400)
+      const { errors } = result.error
+      const fieldErrors = Object.keys(errors ?? {})
+        .filter((key) => fields.some(({ name }) => isErrorKeyForField(key, name)))
+      expect(fieldErrors).toHaveLength(1)
+      expect(isErrorKeyForField(fieldErrors[0], field)).toBeTruthy()
+    }), parameters)
+  })
+})
+
+test.describe('Fuzzing - POST /measurements', { tag: ['@validation', '@destructive'] }, () => {
+  const fields = describeFields(measurementObject)
+  let barrelId: string
+
+  /**
+   * Measurements have to reference an existing barrel to pass validation.
+   */
+  test.beforeAll(async ({ workerBarrelApi }, testInfo) => {
+    faker.seed(describeSeed(testInfo))
+    const result = await workerBarrelApi.create(buildBarrel())
+    expect(result.status).toBe(201)
+    barrelId = result.body.id as string
+  })
+
+  /**
+   * Any payload valid per `measurementObject` is created and read back unchanged.
+   */
+  test('Valid measurements are created and round-trip', async ({ measurementApi }, testInfo) => {
+    test.slow()
+    const parameters = fuzzParameters(testInfo)
+    testInfo.annotations.push({ type: 'fuzz-seed', description: String(parameters.seed) })
+
+    await fc.assert(fc.asyncProperty(validPayload(measurementObject, { barrelId }), async (payload) => {
+      const created = await measurementApi.create(payload)
+      expect(created.status).toBe(201)
+      expect(created).toBeValidMeasurement()
+      checkRoundTrip(payload, created.body)
+
+      const fetched = await measurementApi.get(created.body.id as string)
+      expect(fetched.status).toBe(200)
+      expect(fetched.body).toStrictEqual(created.body)
+    }), parameters)
+  })
+
+  /**
+   * A payload with exactly one broken property is rejected with an error for that property only.
+   */
+  test('Invalid measurements are rejected for the broken field', async ({ measurementApi }, testInfo) => {
+    test.slow()
+    const parameters = fuzzParameters(testInfo)
+    testInfo.annotations.push({ type: 'fuzz-seed', description: String(parameters.seed) })
+
+    await fc.assert(fc.asyncProperty(invalidPayload(measurementObject, { barrelId }), async ({ payload, field }) => {
+      const result = await measurementApi.create(payload)
+      expect(result).toBeProblemDetails(400)
+      const { errors } = result.error
+      const fieldErrors = Object.keys(errors ?? {})
+        .filter((key) => fields.some(({ name }) => isErrorKeyForField(key, name)))
+      expect(fieldErrors).toHaveLength(1)
+      expect(isErrorKeyForField(fieldErrors[0], field)).toBeTruthy()
+    }), parameters)
+  })
+})
@@ -0,0 +1,50 @@
+import { test } from '../fixtures/api.fixture'
+import { buildBarrel } from '../helpers/barrel.helper'
+import { defaultNormalizers, expectGolden, tagNormalizer } from '../helpers/golden.helper'
+
+/**
+ * Whole-response snapshots (status, selected headers, body) of the main exchanges, stored in
+ * `tests/golden/golden.spec.ts/`. Numbers are fixed; ids, dates, framework wording and the generated tags are masked,
+ * so tests running side by side never share a tag.
+ * Rewrite the golden files with `npm run test:golden:update` after an intended API change.
+ */
+test.describe('Golden responses - barrels', { tag: ['@crud', '@destructive'] }, () => {
+
+  test('Create, get and delete a barrel', async ({ barrelApi }) => {
+    const barrel = buildBarrel()
+    const normalizers = [...defaultNormalizers(), tagNormalizer(barrel)]
+    const created = await barrelApi.create(barrel)
+    expectGolden(created, 'post-barrel-201', normalizers)
+
+    expectGolden(await barrelApi.get(created.body.id as string), 'get-barrel-200', normalizers)
+    expectGolden(await barrelApi.delete(created.body.id as string), 'delete-barrel-204', normalizers)
+    expectGolden(await barrelApi.get(created.body.id as string), 'get-barrel-404', normalizers)
+  })
+
+  test('Rejected barrels', { tag: '@validation' }, async ({ barrelApi }) => {
+    const barrel = buildBarrel()
+    expectGolden(await barrelApi.create({ rfid: barrel.rfid, nfc: barrel.nfc }), 'post-barrel-400-missing-qr')
+    expectGolden(await barrelApi.create({ ...barrel, qr: 1 }), 'post-barrel-400-wrong-type')
+    expectGolden(await barrelApi.create(barrel, { 'content-type': 'text/plain' }), 'post-barrel-415')
+    expectGolden(await barrelApi.send('PUT', undefined, { data: barrel }), 'put-barrels-405')
+  })
+})
+
+test.describe('Golden responses - measurements', { tag: ['@crud', '@destructive'] }, () => {
+
+  test('Create and get a measurement', async ({ barrelApi, measurementApi }) => {
+    const normalizers = defaultNormalizers()
+    const barrel = await barrelApi.create(buildBarrel())
+    const created = await measurementApi.create({ barrelId: barrel.body.id, dirtLevel: 12.5, weight: 150.25 })
+    expectGolden(created, 'post-measurement-201', normalizers)
+
+    expectGolden(await measurementApi.get(created.body.id as string), 'get-measurement-200', normalizers)
+  })
+
+  test('Rejected measurements', { tag: '@validation' }, async ({ measurementApi }) => {
+    const unknownBarrel = '00000000-0000-0000-0000-000000000000'
+
+    expectGolden(await measurementApi.create({ barrelId: unknownBarrel, dirtLevel: 1, weight: 1 }), 'post-measurement-404')
+    expectGolden(await measurementApi.create({ barrelId: unknownBarrel, dirtLevel: -1, weight: -1 }), 'post-measurement-400-negative')
+  })
+})
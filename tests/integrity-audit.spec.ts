@@ -0,0 +1,57 @@
+import { test, expect } from '../fixtures/api.fixture'
+import { auditIntegrity } from '../helpers/integrity-audit.helper'
+
+const barrelA = { id: '0b6c1f2e-4a1d-4c55-9d0e-3f1a2b3c4d5e', qr: 'qr-a', rfid: 'rfid-a', nfc: 'nfc-a' }
+const barrelB = { id: '1c7d2a3f-5b2e-4d66-8e1f-4a2b3c4d5e6f', qr: 'qr-b', rfid: 'rfid-b', nfc: 'nfc-b' }
+const measurement = { id: '2d8e3b4a-6c3f-4e77-9f2a-5b3c4d5e6f7a', barrelId: barrelA.id, dirtLevel: 10, weight: 120 }
+
+/**
+ * Guards the referential integrity audit (`npm run audit:integrity`) with hand-made datasets.
+ */
+test.describe('Referential integrity audit', { tag: '@validation' }, () => {
+
+  test('A consistent dataset has no problems', () => {
+    const report = auditIntegrity([barrelA, barrelB], [measurement])
+
+    expect(report.problems).toEqual([])
+    expect(report).toMatchObject({ barrels: 2, measurements: 1 })
+  })
+
+  test('Every kind of problem is reported', () => {
+    const orphan = { ...measurement, id: '3e9f4c5b-7d4a-4f88-8a3b-6c4d5e6f7a8b', barrelId: '4fa05d6c-8e5b-4a99-9b4c-7d5e6f7a8b9c' }
+    const report = auditIntegrity(
+      [barrelA, { ...barrelB, qr: barrelA.qr }, { ...barrelB, id: barrelA.id.toUpperCase(), qr: 'qr-c', rfid: 'rfid-c', nfc: '' }],
+      [measurement, orphan, { id: measurement.id, barrelId: barrelA.id, dirtLevel: 'dirty', weight: 1 }]
+    )
+
+    expect(report.counts).toEqual({
+      'orphan-measurement': 1,
+      'duplicate-id': 2,
+      'invalid-barrel': 1,
+      'invalid-measurement': 1,
+      'duplicate-tag': 1,
+    })
+    expect(report.problems).toContainEqual({
+      kind: 'orphan-measurement',
+      message: `${orphan.id} refers to missing barrel ${orphan.barrelId}`,
+      ids: [orphan.id],
+    })
+    expect(report.problems).toContainEqual(expect.objectContaining({
+      kind: 'invalid-measurement',
+      message: expect.stringContaining('dirtLevel:'),
+    }))
+    expect(report.problems.map(({ kind }) => kind)).not.toContain('duplicate-tag')
+    expect(report.notices).toEqual([expect.objectContaining({ kind: 'duplicate-tag', ids: [barrelA.id, barrelB.id] })])
+  })
+
+  test('Shared tags are notices, not problems', () => {
+    const report = auditIntegrity([barrelA, { ...barrelB, rfid: barrelA.rfid }], [measurement])
+
+    expect(report.problems).toEqual([])
+    expect(report.notices).toEqual([{
+      kind: 'duplicate-tag',
+      message: `rfid "${barrelA.rfid}" is shared by ${barrelA.id}, ${barrelB.id}`,
+      ids: [barrelA.id, barrelB.id],
+    }])
+  })
+})
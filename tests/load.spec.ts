@@ -0,0 +1,30 @@
+import { writeFileSync } from 'fs'
+import { test, expect } from '../fixtures/api.fixture'
+import { formatLoadSummary, loadOptionsFromEnv, LoadRunner } from '../helpers/load-runner.helper'
+import { cassetteMode } from '../helpers/cassette.helper'
+
+/**
+ * Throughput test: virtual users send a weighted mix of create, get, list and delete requests
+ * for a fixed time. Latency percentiles and error rates per endpoint must stay within the thresholds.
+ * Scale the run with the `LOAD_*` variables; the JSON summary and a table per endpoint are attached
+ * to the report, and the JSON is written to `LOAD_SUMMARY` when set.
+ */
+test.describe('Load', { tag: ['@concurrency', '@destructive'] }, () => {
+
+  test('Mixed operations stay within latency and error thresholds', async ({ barrelApi, measurementApi }, testInfo) => {
+    test.skip(cassetteMode !== 'off', 'Randomized traffic cannot be replayed and replayed latency says nothing about the API')
+    const options = loadOptionsFromEnv()
+    test.setTimeout(options.durationMs + testInfo.timeout)
+
+    const summary = await new LoadRunner(barrelApi, measurementApi, options).run()
+    const json = JSON.stringify(summary, null, 2)
+    await testInfo.attach('load-summary', { body: json, contentType: 'application/json' })
+    await testInfo.attach('load-table', { body: formatLoadSummary(summary), contentType: 'text/plain' })
+    if (process.env['LOAD_SUMMARY']) {
+      writeFileSync(process.env['LOAD_SUMMARY'], json)
+    }
+
+    expect(summary.requests, 'requests sent').toBeGreaterThan(0)
+    expect(summary.thresholdFailures, 'exceeded thresholds').toEqual([])
+  })
+})
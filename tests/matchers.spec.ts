@@ -0,0 +1,68 @@
+import { APIResponse } from '@playwright/test'
+import { test, expect } from '../fixtures/api.fixture'
+import { ApiResult } from '../api/base.api'
+import { ProblemDetails } from '../models/error-response.model'
+
+/**
+ * Builds a result as returned by the API clients, without sending a request.
+ */
+function fakeResult(status: number, contentType: string, body: unknown): ApiResult<unknown> {
+  const response = { headers: () => ({ 'content-type': contentType }) } as unknown as APIResponse
+
+  return { response, status, body, error: body as ProblemDetails }
+}
+
+const json = 'application/json; charset=utf-8'
+const problemJson = 'application/problem+json; charset=utf-8'
+const barrel = { id: '0b6c1f2e-4a1d-4c55-9d0e-3f1a2b3c4d5e', qr: 'qr-a', rfid: 'rfid-a', nfc: 'nfc-a' }
+
+/**
+ * Guards the failure messages of the custom matchers, which replace truthy checks on `safeParse`.
+ */
+test.describe('Response matchers', { tag: '@validation' }, () => {
+
+  test('A valid barrel with the expected fields passes', () => {
+    expect(fakeResult(201, json, barrel)).toBeValidBarrel({ qr: 'qr-a' })
+    expect(fakeResult(201, json, barrel)).toBeJsonResponse()
+  })
+
+  test('A failure lists the zod issue paths, mismatched fields and the actual body', () => {
+    const result = fakeResult(201, 'text/plain', { ...barrel, qr: '', nfc: 7 })
+
+    expect(() => expect(result).toBeValidBarrel({ rfid: 'rfid-b' })).toThrow(expect.objectContaining({
+      message: expect.stringMatching(
+        /content-type is "text\/plain"[\s\S]*\$\.qr: [\s\S]*\$\.nfc: [\s\S]*\$\.rfid is "rfid-a", expected "rfid-b"[\s\S]*Body: \{[\s\S]*"nfc": 7/
+      ),
+    }))
+  })
+
+  test('Measurement matcher reports invalid numbers', () => {
+    const result = fakeResult(201, json, { barrelId: barrel.id, dirtLevel: -1, weight: 'heavy' })
+
+    expect(() => expect(result).toBeValidMeasurement()).toThrow(/\$\.dirtLevel: [\s\S]*\$\.weight: /)
+  })
+
+  test('Problem details are checked for status, media type and shape', () => {
+    const problem = { title: 'Barrel was not found.', status: 404 }
+
+    expect(fakeResult(404, problemJson, problem)).toBeProblemDetails(404)
+    expect(() => expect(fakeResult(404, problemJson, problem)).toBeProblemDetails(400)).toThrow(/status is 404, expected 400/)
+    expect(() => expect(fakeResult(404, problemJson, { status: 404 })).toBeProblemDetails(404)).toThrow(/\$\.title: /)
+  })
+
+  test('Validation errors must match exactly', () => {
+    const problem = {
+      title: 'One or more validation errors occurred.',
+      status: 400,
+      errors: { Qr: ['The Qr field is required.'] },
+    }
+    const result = fakeResult(400, problemJson, problem)
+
+    expect(result).toHaveValidationError('Qr', 'The Qr field is required.')
+    expect(result).toHaveValidationError('Qr', expect.stringContaining('required'))
+    expect(() => expect(result).toHaveValidationError('Qr', 'Input too long'))
+      .toThrow(/errors\.Qr is \["The Qr field is required\."\], expected to contain "Input too long"/)
+    expect(() => expect(result).toHaveValidationErrors({ Qr: 'The Qr field is required.', Rfid: 'The Rfid field is required.' }))
+      .toThrow(/errors keys are \["Qr"\], expected \["Qr","Rfid"\]/)
+  })
+})
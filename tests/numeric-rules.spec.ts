@@ -0,0 +1,100 @@
+import { test, expect } from '../fixtures/api.fixture'
+import { buildBarrel } from '../helpers/barrel.helper'
+import { faker } from '@faker-js/faker'
+import { describeSeed } from '../helpers/seed.helper'
+import { contractDeviationAnnotation } from '../helpers/contract.helper'
+import { isErrorKeyForField } from '../helpers/fuzz.helper'
+import { isWithinLimit } from '../models/limits.model'
+import { measurementLimits } from '../models/measurement.model'
+import { dirtLevelRule, float32Equals, formatQuantity, isAcceptedBy, weightRule } from '../models/numeric-rules.model'
+
+type NumericField = keyof typeof measurementLimits
+
+/**
+ * A number as written in the JSON body and the float32 value the API must store, or `undefined`
+ * when the API must reject it. Upper bounds and `0` are covered by `tests/boundaries.spec.ts`.
+ */
+interface NumericCase {
+  field: NumericField,
+  title: string,
+  /** JSON fragment sent as the value, e.g. `1.5e1` or `"NaN"`. */
+  json: string,
+  stored?: number,
+}
+
+const numericCases: NumericCase[] = [
+  { field: 'dirtLevel', title: 'a decimal without an exact float32 form', json: '0.1', stored: 0.1 },
+  { field: 'dirtLevel', title: 'a repeating decimal', json: '33.333333333333336', stored: 33.333332 },
+  { field: 'dirtLevel', title: 'a value above the maximum that rounds to it', json: '100.000001', stored: 100 },
+  { field: 'weight', title: 'an integer above 2^24', json: '16777217', stored: 16777216 },
+  { field: 'weight', title: 'a positive value that rounds to the smallest float32', json: '1e-45', stored: 1.401298464324817e-45 },
+  { field: 'dirtLevel', title: 'exponent notation', json: '1.5e1', stored: 15 },
+  { field: 'dirtLevel', title: 'exponent notation at the maximum', json: '1E+2', stored: 100 },
+  { field: 'dirtLevel', title: 'exponent notation above the maximum', json: '1e3' },
+  { field: 'weight', title: 'a negative exponent', json: '2.5E-1', stored: 0.25 },
+  { field: 'weight', title: 'a numeric string', json: '"12.5"', stored: 12.5 },
+  { field: 'dirtLevel', title: 'a numeric string in exponent notation', json: '"1e1"', stored: 10 },
+  { field: 'weight', title: 'a negative numeric string', json: '"-1"' },
+  { field: 'dirtLevel', title: 'NaN as a string', json: '"NaN"' },
+  { field: 'weight', title: 'NaN as a string', json: '"NaN"' },
+  { field: 'dirtLevel', title: 'Infinity as a string', json: '"Infinity"' },
+  { field: 'weight', title: 'Infinity as a string', json: '"Infinity"' },
+  { field: 'weight', title: '-Infinity as a string', json: '"-Infinity"' },
+]
+
+test.describe('Numeric rules - POST /measurements', { tag: ['@validation', '@destructive'] }, () => {
+  let barrelId: string
+
+  /**
+   * Measurements have to reference an existing barrel, so only the numeric field decides the outcome.
+   */
+  test.beforeAll(async ({ workerBarrelApi }, testInfo) => {
+    faker.seed(describeSeed(testInfo))
+    const result = await workerBarrelApi.create(buildBarrel())
+    expect(result.status).toBe(201)
+    barrelId = result.body.id as string
+  })
+
+  for (const { field, title, json, stored } of numericCases) {
+    const rule = measurementLimits[field]
+    const outcome = stored === undefined ? 'is rejected' : `is stored as ${formatQuantity(rule, stored)}`
+
+    test(`${field}: ${title} (${json}) ${outcome}`, async ({ measurementApi }, testInfo) => {
+      if (stored !== undefined && json.startsWith('"')) {
+        // The API reads numbers from strings, which its OpenAPI document does not declare
+        testInfo.annotations.push({ type: contractDeviationAnnotation, description: `request $.${field}` })
+      } else if (stored !== undefined && !isWithinLimit(rule, Number(json))) {
+        // The range of the OpenAPI document applies to the number as sent, the API to its float32 value
+        testInfo.annotations.push({ type: contractDeviationAnnotation, description: `request $.${field}` })
+      }
+      const numbers: Record<NumericField, string> = { dirtLevel: '50', weight: '120', [field]: json }
+      const body = `{"barrelId":"${barrelId}","dirtLevel":${numbers.dirtLevel},"weight":${numbers.weight}}`
+      const result = await measurementApi.create(body)
+
+      if (stored === undefined) {
+        expect(result).toBeProblemDetails(400)
+        expect(Object.keys(result.error.errors ?? {}).filter((key) => isErrorKeyForField(key, field))).toHaveLength(1)
+      } else {
+        expect(isAcceptedBy(rule, stored)).toBe(true)
+        expect(result).toBeValidMeasurement({ [field]: stored })
+      }
+    })
+  }
+})
+
+test.describe('Numeric rules - float32 semantics', { tag: '@validation' }, () => {
+
+  test('Values are equal when they round to the same float32', () => {
+    expect(float32Equals(0.1, 0.10000000149011612)).toBe(true)
+    expect(float32Equals(16777216, 16777217)).toBe(true)
+    expect(float32Equals(0.1, 0.1000001)).toBe(false)
+  })
+
+  test('The range is checked after rounding to float32', () => {
+    expect(isAcceptedBy(dirtLevelRule, 100.000001)).toBe(true)
+    expect(isAcceptedBy(dirtLevelRule, 100.00001)).toBe(false)
+    expect(isAcceptedBy(weightRule, 0)).toBe(false)
+    expect(isAcceptedBy(weightRule, 1e-46)).toBe(false)
+    expect(isAcceptedBy(weightRule, 1e39)).toBe(false)
+  })
+})
@@ -0,0 +1,22 @@
+import { test, expect } from '../fixtures/api.fixture'
+import { buildBarrel } from '../helpers/barrel.helper'
+import { waitForBarrelGone } from '../helpers/polling.helper'
+
+/**
+ * Guards the diagnostics of the polling helpers: a wait that times out lists what it saw.
+ */
+test.describe('Polling helpers', { tag: ['@crud', '@destructive'] }, () => {
+
+  test('A timed out wait lists every observed state', async ({ barrelApi }) => {
+    const created = await barrelApi.create(buildBarrel())
+    expect(created.status).toBe(201)
+
+    const error = await waitForBarrelGone(barrelApi, created.body.id as string, { timeout: 600, intervals: [100] }).then(
+      () => undefined,
+      (failure: Error) => failure
+    )
+
+    expect(error?.message).toContain(`Waited 600ms for barrel ${created.body.id} to be gone`)
+    expect(error?.message).toMatch(/Observed states:\n {2}\+\d+ms 200 \{.*"qr":.*\} \(\d+ times\)/)
+  })
+})
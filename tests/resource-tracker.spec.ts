@@ -0,0 +1,77 @@
+import { faker } from '@faker-js/faker'
+import { APIRequestContext, APIResponse } from '@playwright/test'
+import { test, expect } from '../fixtures/api.fixture'
+import { BarrelApi } from '../api/barrel.api'
+import { MeasurementApi } from '../api/measurement.api'
+import { buildBarrel } from '../helpers/barrel.helper'
+import { leftoverResourcesAnnotation, reportLeftovers, ResourceTracker } from '../helpers/resource-tracker.helper'
+
+/**
+ * Context whose DELETE answers with the status configured per id, or throws for ids without one.
+ */
+function deleteStub(statuses: Record<string, number>, deleted: string[]): APIRequestContext {
+  return {
+    async delete(url: string): Promise<APIResponse> {
+      const id = url.split('/').pop() as string
+      deleted.push(url)
+      if (statuses[id] === undefined) {
+        throw new Error('socket hang up')
+      }
+
+      return { status: () => statuses[id] } as APIResponse
+    },
+  } as APIRequestContext
+}
+
+test.describe('Resource tracker - cleanup', { tag: '@crud' }, () => {
+
+  test('Resources are deleted in reverse creation order', async () => {
+    const tracker = new ResourceTracker()
+    const deleted: string[] = []
+    tracker.track(BarrelApi.endpoint, 'b1')
+    tracker.track(MeasurementApi.endpoint, 'm1')
+    tracker.track(MeasurementApi.endpoint, 'm2')
+
+    expect(await tracker.cleanup(deleteStub({ b1: 204, m1: 204, m2: 204 }, deleted))).toEqual([])
+
+    expect(deleted).toEqual([`${MeasurementApi.endpoint}/m2`, `${MeasurementApi.endpoint}/m1`, `${BarrelApi.endpoint}/b1`])
+  })
+
+  test('Failed and throwing deletes are leftovers, a 404 counts as deleted', async () => {
+    const tracker = new ResourceTracker()
+    tracker.track(BarrelApi.endpoint, 'gone')
+    tracker.track(BarrelApi.endpoint, 'locked')
+    tracker.track(BarrelApi.endpoint, 'unreachable')
+
+    const leftovers = await tracker.cleanup(deleteStub({ gone: 404, locked: 500 }, []))
+
+    expect(leftovers).toEqual([
+      { endpoint: BarrelApi.endpoint, id: 'unreachable', reason: 'socket hang up' },
+      { endpoint: BarrelApi.endpoint, id: 'locked', reason: 'DELETE returned 500' },
+    ])
+  })
+
+  test('Leftovers are reported as a test annotation', async ({}, testInfo) => {
+    const tracker = new ResourceTracker()
+    tracker.track(BarrelApi.endpoint, 'locked')
+    const leftovers = await tracker.cleanup(deleteStub({ locked: 503 }, []))
+
+    reportLeftovers(leftovers, testInfo)
+
+    expect(testInfo.annotations).toContainEqual({
+      type: leftoverResourcesAnnotation,
+      description: `${BarrelApi.endpoint}/locked: DELETE returned 503`,
+    })
+  })
+
+  test('Nothing is reported when every resource was deleted', { tag: '@destructive' }, async ({ request }, testInfo) => {
+    const tracker = new ResourceTracker()
+    const barrelApi = new BarrelApi(request, tracker)
+    expect((await barrelApi.create(buildBarrel())).status).toBe(201)
+    tracker.track(BarrelApi.endpoint, faker.string.uuid())
+
+    reportLeftovers(await tracker.cleanup(request), testInfo)
+
+    expect(testInfo.annotations.map(({ type }) => type)).not.toContain(leftoverResourcesAnnotation)
+  })
+})
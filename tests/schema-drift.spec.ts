@@ -0,0 +1,148 @@
+import { FullConfig, FullResult, TestCase, TestResult } from '@playwright/test/reporter'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { test, expect } from '../fixtures/api.fixture'
+import { buildBarrel } from '../helpers/barrel.helper'
+import {
+  compareShapes, declaredShapes, findSchemaDrift, loadSchemaBaseline, nextSchemaBaseline, ObservedShapes, ResponseShapeCollector,
+  responseShapesAttachment, SchemaDriftMode, SchemaShape
+} from '../helpers/schema-drift.helper'
+import SchemaDriftReporter from '../reporters/schema-drift.reporter'
+
+const barrelShape: SchemaShape = {
+  Barrel: { id: ['string'], qr: ['string'], rfid: ['string'], nfc: ['string'] },
+}
+
+/**
+ * Records the given bodies as responses of the `Barrel` model.
+ */
+function observe(...bodies: unknown[]): ObservedShapes {
+  const collector = new ResponseShapeCollector()
+  bodies.forEach((body) => collector.record('Barrel', body))
+
+  return collector.take()
+}
+
+/**
+ * Runs the reporter on one test that received the given shapes and returns the status it sets for the run.
+ */
+async function runReporter(
+  mode: SchemaDriftMode,
+  shapes: ObservedShapes,
+  outputFolder: string,
+  baselineFile: string
+): Promise<FullResult['status'] | undefined> {
+  const reporter = new SchemaDriftReporter({ mode, outputFolder, baselineFile })
+  const attachment = { name: responseShapesAttachment, contentType: 'application/json', body: Buffer.from(JSON.stringify(shapes)) }
+  reporter.onBegin({ configFile: undefined, rootDir: outputFolder } as FullConfig)
+  reporter.onTestEnd({} as TestCase, { attachments: [attachment] } as TestResult)
+
+  return (await reporter.onEnd({ status: 'passed' } as FullResult))?.status
+}
+
+test.describe('Schema drift - response shapes', { tag: '@validation' }, () => {
+
+  test('The declared shapes follow the zod models', () => {
+    const { shape, required } = declaredShapes()
+
+    expect(shape).toEqual({
+      ...barrelShape,
+      Measurement: { id: ['string'], barrelId: ['string'], dirtLevel: ['number'], weight: ['number'] },
+    })
+    expect(required.Barrel.sort()).toEqual(['nfc', 'qr', 'rfid'])
+    expect(required.Measurement.sort()).toEqual(['barrelId', 'dirtLevel', 'weight'])
+  })
+
+  test('Keys and value types of objects and arrays are recorded with their counts', () => {
+    const observed = observe([{ qr: 'a', meta: { source: 'x' } }, { qr: null, tags: [1, 'b'] }], 'not an object')
+
+    expect(observed).toEqual({
+      Barrel: {
+        objects: 2,
+        fields: {
+          'qr': { count: 2, types: ['null', 'string'] },
+          'meta': { count: 1, types: ['object'] },
+          'meta.source': { count: 1, types: ['string'] },
+          'tags': { count: 1, types: ['array'] },
+          'tags[]': { count: 1, types: ['number', 'string'] },
+        },
+      },
+    })
+  })
+
+  test('Added, removed and retyped fields are reported', () => {
+    const observed = observe({ id: 'x', qr: 'a', rfid: 7, location: { site: 'north' } })
+
+    expect(compareShapes('baseline', barrelShape, observed)).toEqual([
+      { against: 'baseline', model: 'Barrel', field: 'location', change: 'added', expected: [], observed: ['object'] },
+      { against: 'baseline', model: 'Barrel', field: 'rfid', change: 'retyped', expected: ['string'], observed: ['number'] },
+      { against: 'baseline', model: 'Barrel', field: 'nfc', change: 'removed', expected: ['string'], observed: [] },
+    ])
+  })
+
+  test('Optional model fields and models not seen in the run are not reported as removed', () => {
+    const { shape, required } = declaredShapes()
+    const observed = observe({ qr: 'a', rfid: 'b', nfc: 'c' })
+
+    expect(compareShapes('model', shape, observed, required)).toEqual([])
+  })
+
+  test('The worker keeps the shapes attached to its tests for strict mode', () => {
+    const collector = new ResponseShapeCollector()
+    collector.record('Barrel', { id: 'x', qr: 'a', rfid: 'b', nfc: 'c' })
+    collector.take()
+    collector.record('Barrel', { id: 'y', qr: 'a', rfid: 'b', nfc: 'c', owner: 'someone' })
+
+    expect(collector.all().Barrel.objects).toBe(2)
+    expect(findSchemaDrift(collector.all(), barrelShape, 'strict').map(({ against, field }) => `${against} ${field}`))
+      .toEqual(['model owner', 'baseline owner'])
+    expect(findSchemaDrift(collector.all(), barrelShape, 'update').map(({ against }) => against)).toEqual(['model'])
+  })
+
+  test('The next baseline replaces the models seen in the run and keeps the others', () => {
+    const previous: SchemaShape = { ...barrelShape, Measurement: { weight: ['number'] } }
+    const baseline = nextSchemaBaseline(observe({ qr: 'a', nfc: null }), previous)
+
+    expect(baseline).toEqual({ Barrel: { nfc: ['null'], qr: ['string'] }, Measurement: { weight: ['number'] } })
+  })
+})
+
+test.describe('Schema drift - reporter', { tag: '@validation' }, () => {
+
+  test('Strict mode fails the run on drift, report mode does not', async ({}, testInfo) => {
+    const baselineFile = testInfo.outputPath('baseline.json')
+    writeFileSync(baselineFile, JSON.stringify(declaredShapes().shape))
+    const drifted = observe({ id: 'x', qr: 'a', rfid: 'b', nfc: 'c', owner: 'someone' })
+
+    expect(await runReporter('report', drifted, testInfo.outputPath('report'), baselineFile)).toBeUndefined()
+    expect(await runReporter('strict', drifted, testInfo.outputPath('strict'), baselineFile)).toBe('failed')
+    expect(await runReporter('strict', observe({ id: 'x', qr: 'a', rfid: 'b', nfc: 'c' }), testInfo.outputPath('clean'), baselineFile))
+      .toBeUndefined()
+
+    const report = JSON.parse(readFileSync(testInfo.outputPath('strict', 'drift.json'), 'utf8'))
+    expect(report.drift.map(({ against, field, change }: Record<string, string>) => `${against} ${field} ${change}`))
+      .toEqual(['model owner added', 'baseline owner added'])
+    expect(existsSync(testInfo.outputPath('strict', 'index.html'))).toBe(true)
+  })
+
+  test('Update mode saves the observed shapes as the baseline', async ({}, testInfo) => {
+    const baselineFile = testInfo.outputPath('baseline.json')
+
+    expect(await runReporter('update', observe({ qr: 'a', owner: 'someone' }), testInfo.outputPath('report'), baselineFile)).toBeUndefined()
+
+    expect(loadSchemaBaseline(baselineFile)).toEqual({ Barrel: { owner: ['string'], qr: ['string'] } })
+  })
+})
+
+test.describe('Schema drift - live responses', { tag: ['@validation', '@destructive'] }, () => {
+
+  test('Barrel responses have the declared fields and types', async ({ barrelApi }) => {
+    const collector = new ResponseShapeCollector()
+    const created = await barrelApi.create(buildBarrel())
+    expect(created.status).toBe(201)
+    collector.record('Barrel', created.body)
+    collector.record('Barrel', (await barrelApi.get(created.body.id as string)).body)
+    const { shape, required } = declaredShapes()
+
+    expect(compareShapes('model', shape, collector.take(), required)).toEqual([])
+  })
+})
@@ -0,0 +1,167 @@
+import { test, expect } from '../fixtures/api.fixture'
+import { buildBarrel } from '../helpers/barrel.helper'
+import {
+  describeResponse, findLeakedInternals, hostileIds, malformedBodies, prototypePollutionPayloads
+} from '../helpers/security.helper'
+
+/**
+ * Security checks of the HTTP layer. Every check carries a severity; findings at or above
+ * `SECURITY_FAIL_ON` (default `medium`) fail the test, weaker ones are only reported
+ * as `security <severity>` annotations and a `security-findings` attachment.
+ */
+test.describe('Security - response headers', { tag: '@security' }, () => {
+
+  /**
+   * Without `nosniff`, browsers may interpret JSON as HTML or script.
+   */
+  test('Responses send X-Content-Type-Options: nosniff', async ({ barrelApi, securityChecks }) => {
+    const responses = {
+      'GET /barrels': (await barrelApi.list()).response,
+      'GET /barrels/{id} 404': (await barrelApi.get('00000000-0000-0000-0000-000000000000')).response,
+    }
+
+    for (const [name, response] of Object.entries(responses)) {
+      const header = response.headers()['x-content-type-options']
+      securityChecks.check(`X-Content-Type-Options on ${name}`, 'low', header === 'nosniff', `header is ${header ?? 'missing'}`)
+    }
+  })
+
+  /**
+   * HSTS only has an effect on responses received over HTTPS.
+   */
+  test('HTTPS responses send Strict-Transport-Security', async ({ barrelApi, baseURL, securityChecks }) => {
+    test.skip(!baseURL?.startsWith('https:'), 'HSTS only applies to HTTPS base URLs')
+    const header = (await barrelApi.list()).response.headers()['strict-transport-security']
+    const maxAge = Number(header?.match(/max-age=(\d+)/i)?.[1] ?? 0)
+
+    securityChecks.check('Strict-Transport-Security is sent', 'medium', header !== undefined, `header is ${header ?? 'missing'}`)
+    securityChecks.check('HSTS max-age is at least 180 days', 'low', maxAge >= 15_552_000, `max-age is ${maxAge}`)
+  })
+
+  /**
+   * A preflight from an unknown origin must not be granted, least of all with credentials.
+   */
+  test('CORS preflight does not trust arbitrary origins', async ({ barrelApi, securityChecks }) => {
+    const origin = 'https://attacker.example'
+    const { response } = await barrelApi.send('OPTIONS', undefined, {
+      headers: { 'Origin': origin, 'Access-Control-Request-Method': 'POST', 'Access-Control-Request-Headers': 'content-type' },
+    })
+    const headers = response.headers()
+    const allowOrigin = headers['access-control-allow-origin']
+    const allowCredentials = headers['access-control-allow-credentials'] === 'true'
+
+    securityChecks.check('Preflight does not fail', 'medium', response.status() < 500, describeResponse(response))
+    securityChecks.check('Foreign origin is not reflected', 'medium', allowOrigin !== origin, `Access-Control-Allow-Origin is ${allowOrigin ?? 'missing'}`)
+    securityChecks.check(
+      'Credentials are not allowed for any origin',
+      'high',
+      !(allowCredentials && (allowOrigin === '*' || allowOrigin === origin)),
+      `Access-Control-Allow-Origin is ${allowOrigin ?? 'missing'}, Access-Control-Allow-Credentials is ${allowCredentials}`
+    )
+  })
+})
+
+test.describe('Security - request bodies', { tag: ['@security', '@destructive'] }, () => {
+
+  for (const [name, body] of Object.entries(malformedBodies)) {
+    /**
+     * The parser must reject the body with a validation problem, not crash or leak internals.
+     */
+    test(`Malformed body is rejected - ${name}`, async ({ barrelApi, securityChecks }) => {
+      const { response } = await barrelApi.create(body)
+      const text = await response.text()
+      const leaked = findLeakedInternals(text)
+
+      securityChecks.check('Server does not fail', 'medium', response.status() < 500, describeResponse(response))
+      securityChecks.check('Body is rejected with 400', 'medium', response.status() === 400, describeResponse(response))
+      securityChecks.check('No implementation details leak', 'medium', leaked === undefined, leaked ?? 'none found')
+    })
+  }
+
+  /**
+   * A multi-megabyte body must be refused without taking the API down.
+   */
+  test('Oversized body is rejected', async ({ barrelApi, securityChecks }) => {
+    const barrel = { ...buildBarrel(), qr: 'x'.repeat(5 * 1024 * 1024) }
+    const { response } = await barrelApi.create(barrel)
+    const followUp = await barrelApi.list()
+
+    securityChecks.check('Server does not fail', 'medium', response.status() < 500, describeResponse(response))
+    securityChecks.check('Body is refused with 400 or 413', 'medium', [400, 413].includes(response.status()), describeResponse(response))
+    securityChecks.check('API stays available', 'high', followUp.status === 200, `GET /barrels answered ${followUp.status}`)
+  })
+
+  /**
+   * Duplicate keys, also differing only in case, must resolve to one value that is stored consistently.
+   */
+  test('Duplicate JSON keys resolve to a single value', async ({ barrelApi, securityChecks }) => {
+    const duplicates: [string, string, string][] = [['same key', 'qr', 'qr'], ['case variant', 'qr', 'QR']]
+
+    for (const [name, key, duplicateKey] of duplicates) {
+      const { qr: first, ...tags } = buildBarrel()
+      const second = buildBarrel().qr
+      const body = `{"${key}": ${JSON.stringify(first)}, "${duplicateKey}": ${JSON.stringify(second)}, ` +
+        `"rfid": ${JSON.stringify(tags.rfid)}, "nfc": ${JSON.stringify(tags.nfc)}}`
+      const created = await barrelApi.create(body)
+      if (created.status !== 201) {
+        securityChecks.check(`${name}: duplicate keys are rejected or resolved`, 'low', created.status === 400, describeResponse(created.response))
+        continue
+      }
+      const stored = await barrelApi.get(created.body.id as string)
+      securityChecks.check(
+        `${name}: one of the values is kept`,
+        'low',
+        [first, second].includes(created.body.qr),
+        `qr is ${JSON.stringify(created.body.qr)}`
+      )
+      securityChecks.check(
+        `${name}: stored value matches the response`,
+        'medium',
+        stored.body?.qr === created.body.qr,
+        `created ${JSON.stringify(created.body.qr)}, stored ${JSON.stringify(stored.body?.qr)}`
+      )
+    }
+  })
+
+  /**
+   * `__proto__` and `constructor` keys must neither pollute the created item nor other responses.
+   */
+  test('Prototype pollution keys are ignored', async ({ barrelApi, securityChecks }) => {
+    for (const [name, body] of prototypePollutionPayloads(buildBarrel)) {
+      const { response } = await barrelApi.create(body)
+      const text = await response.text()
+
+      securityChecks.check(`${name}: server does not fail`, 'high', response.status() < 500, describeResponse(response))
+      securityChecks.check(`${name}: response is not polluted`, 'critical', !text.includes('polluted'), text.slice(0, 200))
+    }
+    const listing = await barrelApi.list()
+
+    expect(listing.status).toBe(200)
+    securityChecks.check(
+      'Other items are not polluted',
+      'critical',
+      listing.body.every((barrel) => !('polluted' in barrel)),
+      `${listing.body.length} barrels listed`
+    )
+  })
+})
+
+test.describe('Security - path parameters', { tag: '@security' }, () => {
+
+  for (const endpoint of ['/barrels', '/measurements']) {
+    /**
+     * Hostile identifiers must be answered with 400 or 404 and never expose other data.
+     */
+    test(`GET ${endpoint}/{id} rejects traversal and encoded characters`, async ({ request, securityChecks }) => {
+      for (const [name, id] of Object.entries(hostileIds)) {
+        const response = await request.get(`${endpoint}/${id}`)
+        const text = await response.text()
+        const leaked = findLeakedInternals(text)
+
+        securityChecks.check(`${name}: rejected with 400 or 404`, 'high', [400, 404].includes(response.status()), describeResponse(response))
+        securityChecks.check(`${name}: no file content is returned`, 'critical', !/root:.*:0:0:|\[fonts\]/.test(text), text.slice(0, 200))
+        securityChecks.check(`${name}: no implementation details leak`, 'medium', leaked === undefined, leaked ?? 'none found')
+      }
+    })
+  }
+})
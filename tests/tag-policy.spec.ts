@@ -0,0 +1,75 @@
+import { faker } from '@faker-js/faker'
+import { test, expect } from '../fixtures/api.fixture'
+import { buildBarrel } from '../helpers/barrel.helper'
+import { waitForBarrelsByTag } from '../helpers/polling.helper'
+import { tagKinds } from '../models/barrel.model'
+
+/**
+ * Duplicate-tag policy of POST /barrels, as observed on the live API:
+ * - tags are not unique, a second barrel with a `qr`, `rfid` or `nfc` value already in use is created too,
+ *   and a lookup by that value finds every barrel carrying it;
+ * - values are compared verbatim, so case and whitespace variants are different tags;
+ * - the kinds are separate, so the same value may be used in different tag fields.
+ * Duplicates already stored are listed as notices by the integrity audit.
+ */
+test.describe('Tag policy - POST /barrels', { tag: ['@validation', '@destructive'] }, () => {
+
+  for (const kind of tagKinds) {
+    test(`A ${kind} already assigned to a barrel is accepted for another one`, async ({ barrelApi }) => {
+      const first = await barrelApi.create(buildBarrel())
+      expect(first.status).toBe(201)
+
+      const duplicate = await barrelApi.create(buildBarrel({ [kind]: first.body[kind] }))
+
+      expect(duplicate).toBeValidBarrel({ [kind]: first.body[kind] })
+      expect(duplicate.body.id).not.toBe(first.body.id)
+      const owners = await waitForBarrelsByTag(barrelApi, kind, first.body[kind], (barrels) => barrels.length === 2)
+      expect(owners).toEqual(expect.arrayContaining([first.body, duplicate.body]))
+    })
+
+    test(`Case and whitespace variants of a ${kind} are different tags`, async ({ barrelApi }) => {
+      const value = `Tag-${faker.string.alphanumeric(12)}`
+      const variants = [value, value.toUpperCase(), value.toLowerCase(), ` ${value}`, `${value} `, value.replace('-', ' - ')]
+
+      for (const variant of variants) {
+        expect(await barrelApi.create(buildBarrel({ [kind]: variant }))).toBeValidBarrel({ [kind]: variant })
+      }
+      for (const variant of variants) {
+        const owners = await waitForBarrelsByTag(barrelApi, kind, variant, (barrels) => barrels.length > 0)
+        expect(owners.map((barrel) => barrel[kind])).toEqual([variant])
+      }
+    })
+  }
+
+  test('The same value may be used in different tag fields', async ({ barrelApi }) => {
+    const value = faker.string.alphanumeric(16)
+    const own = await barrelApi.create({ qr: value, rfid: value, nfc: value })
+    expect(own).toBeValidBarrel({ qr: value, rfid: value, nfc: value })
+
+    const other = `other-${value}`
+    const crossed = await Promise.all(tagKinds.map((kind) => barrelApi.create(buildBarrel({ [kind]: other }))))
+    for (const result of crossed) {
+      expect(result.status).toBe(201)
+    }
+    for (const [i, kind] of tagKinds.entries()) {
+      const owners = await waitForBarrelsByTag(barrelApi, kind, other, (barrels) => barrels.length > 0)
+      expect(owners).toEqual([crossed[i].body])
+    }
+  })
+
+  test('Concurrent posts of the same tag create a barrel each', { tag: '@concurrency' }, async ({ barrelApi }) => {
+    const qr = faker.string.nanoid()
+    const results = await Promise.all(Array.from({ length: 5 }, () => barrelApi.create(buildBarrel({ qr }))))
+
+    expect(results.map(({ status }) => status)).toEqual([201, 201, 201, 201, 201])
+    const owners = await waitForBarrelsByTag(barrelApi, 'qr', qr, (barrels) => barrels.length === results.length)
+    expect(owners.map(({ id }) => id).sort()).toEqual(results.map(({ body }) => body.id).sort())
+  })
+
+  test('An unknown tag finds no barrel', { tag: '@smoke' }, async ({ barrelApi }) => {
+    const result = await barrelApi.findBarrelsByTag('rfid', faker.string.uuid())
+
+    expect(result.status).toBe(200)
+    expect(result.body).toEqual([])
+  })
+})
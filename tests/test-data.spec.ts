@@ -0,0 +1,35 @@
+import { faker } from '@faker-js/faker'
+import { test, expect } from '../fixtures/api.fixture'
+import { buildBarrel } from '../helpers/barrel.helper'
+import { buildMeasurement } from '../helpers/measurement.helper'
+
+/**
+ * Guards the seeded factories, which every other spec relies on for reproducible payloads.
+ */
+test.describe('Test data factories', { tag: '@validation' }, () => {
+
+  test('The same seed builds the same data', ({ seed }) => {
+    const first = [buildBarrel(), buildMeasurement('barrel-1')]
+    faker.seed(seed)
+    const second = [buildBarrel(), buildMeasurement('barrel-1')]
+
+    expect(second).toEqual(first)
+  })
+
+  test('Overrides replace generated fields and every call returns a new object', () => {
+    const barrel = buildBarrel({ qr: 'T' })
+    const measurement = buildMeasurement('barrel-1', { weight: -1 })
+
+    expect(barrel.qr).toBe('T')
+    expect(barrel.rfid).toBeTruthy()
+    expect(measurement).toMatchObject({ barrelId: 'barrel-1', weight: -1 })
+    expect(buildBarrel()).not.toBe(buildBarrel())
+  })
+
+  test('The seed and the rerun command are in the report', ({ seed }) => {
+    expect(test.info().annotations).toContainEqual({
+      type: 'seed',
+      description: expect.stringContaining(`TEST_CASE_SEED=${seed} npx playwright test tests/test-data.spec.ts:`),
+    })
+  })
+})
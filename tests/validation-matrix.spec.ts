@@ -0,0 +1,99 @@
+import { test, expect } from '../fixtures/api.fixture'
+import {
+  checkValidationRow, invalid, notConvertible, required, ValidationRow, validationRowTitle
+} from '../helpers/validation-matrix.helper'
+import { buildBarrel } from '../helpers/barrel.helper'
+import { faker } from '@faker-js/faker'
+import { describeSeed } from '../helpers/seed.helper'
+
+/**
+ * Validation rules of POST /barrels: one row per field and invalid value kind.
+ *
+ * NOTE: There is no `too long` row, the API accepts strings of any length at this moment
+ * and so has no message to expect.
+ */
+const barrelRules: ValidationRow[] = [
+  { field: 'qr', kind: 'missing', ...required('Qr') },
+  { field: 'qr', kind: 'null', ...required('Qr') },
+  { field: 'qr', kind: 'undefined', ...required('Qr') },
+  { field: 'qr', kind: 'empty', ...required('Qr') },
+  { field: 'qr', kind: 'wrong type', ...notConvertible('barrel', 'qr', 'System.String') },
+
+  { field: 'rfid', kind: 'missing', ...required('Rfid') },
+  { field: 'rfid', kind: 'null', ...required('Rfid') },
+  { field: 'rfid', kind: 'undefined', ...required('Rfid') },
+  { field: 'rfid', kind: 'empty', ...required('Rfid') },
+  { field: 'rfid', kind: 'wrong type', ...notConvertible('barrel', 'rfid', 'System.String') },
+
+  { field: 'nfc', kind: 'missing', ...required('Nfc') },
+  { field: 'nfc', kind: 'null', ...required('Nfc') },
+  { field: 'nfc', kind: 'undefined', ...required('Nfc') },
+  { field: 'nfc', kind: 'empty', ...required('Nfc') },
+  { field: 'nfc', kind: 'wrong type', ...notConvertible('barrel', 'nfc', 'System.String') },
+
+  { field: 'id', kind: 'wrong type', value: 'not-guid', ...notConvertible('barrel', 'id', 'System.Guid') },
+]
+
+/**
+ * Validation rules of POST /measurements: one row per field and invalid value kind.
+ */
+const measurementRules: ValidationRow[] = [
+  { field: 'barrelId', kind: 'missing', ...required('BarrelId') },
+  { field: 'barrelId', kind: 'null', ...required('BarrelId') },
+  { field: 'barrelId', kind: 'undefined', ...required('BarrelId') },
+  { field: 'barrelId', kind: 'empty', ...required('BarrelId') },
+  { field: 'barrelId', kind: 'wrong type', ...notConvertible('measurement', 'barrelId', 'System.Guid') },
+
+  { field: 'dirtLevel', kind: 'missing', ...required('DirtLevel', 'Dirtlevel') },
+  { field: 'dirtLevel', kind: 'null', ...required('DirtLevel', 'Dirtlevel') },
+  { field: 'dirtLevel', kind: 'undefined', ...required('DirtLevel', 'Dirtlevel') },
+  { field: 'dirtLevel', kind: 'wrong type', value: 'dirty', ...notConvertible('measurement', 'dirtLevel', 'System.Single') },
+  { field: 'dirtLevel', kind: 'negative', ...invalid('DirtLevel', 'DirtLevel must be positive number') },
+
+  { field: 'weight', kind: 'missing', ...required('Weight') },
+  { field: 'weight', kind: 'null', ...required('Weight') },
+  { field: 'weight', kind: 'undefined', ...required('Weight') },
+  { field: 'weight', kind: 'wrong type', value: 'heavy', ...notConvertible('measurement', 'weight', 'System.Single') },
+  { field: 'weight', kind: 'negative', ...invalid('Weight', 'Weight must be positive number') },
+  // Above the float32 maximum, so System.Text.Json cannot read it as a float
+  { field: 'weight', kind: 'out of range', value: 1e39, ...notConvertible('measurement', 'weight', 'System.Single') },
+]
+
+test.describe('Validation matrix - POST /barrels', { tag: ['@validation', '@destructive'] }, () => {
+  const validBarrel = { qr: 'filled', rfid: 'filled', nfc: 'filled' }
+
+  for (const row of barrelRules) {
+    test(validationRowTitle(row), async ({ barrelApi }) => {
+      await checkValidationRow(barrelApi, validBarrel, row)
+    })
+  }
+
+  /**
+   * A field-level assertion must not pass when the API reports more fields than expected.
+   */
+  test('Unexpected errors fields fail the assertion', async ({ barrelApi }) => {
+    const result = await barrelApi.create({ ...validBarrel, qr: 123 })
+
+    expect(() => expect(result).toHaveValidationError('barrel', 'The barrel field is required.')).toThrow(/errors keys/)
+  })
+})
+
+test.describe('Validation matrix - POST /measurements', { tag: ['@validation', '@destructive'] }, () => {
+  let validMeasurement: Record<string, unknown>
+
+  /**
+   * Measurements have to reference an existing barrel, so only the broken field fails validation.
+   */
+  test.beforeAll(async ({ workerBarrelApi }, testInfo) => {
+    faker.seed(describeSeed(testInfo))
+    const barrel = await workerBarrelApi.create(buildBarrel())
+    expect(barrel.status).toBe(201)
+    validMeasurement = { barrelId: barrel.body.id, dirtLevel: 10, weight: 10 }
+  })
+
+  for (const row of measurementRules) {
+    test(validationRowTitle(row), async ({ measurementApi }) => {
+      await checkValidationRow(measurementApi, validMeasurement, row)
+    })
+  }
+})